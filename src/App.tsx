@@ -1,17 +1,39 @@
+import { Suspense, lazy } from 'react'
 import { Routes, Route, Link } from 'react-router-dom'
-import { Stethoscope, Home, Settings } from 'lucide-react'
+import { Stethoscope, Home, Settings, LogOut, CalendarDays } from 'lucide-react'
 import UserHome from './pages/UserHome'
 import BookingPage from './pages/BookingPage'
+import BookingDetailsPage from './pages/BookingDetailsPage'
+import ManageBookingPage from './pages/ManageBookingPage'
+import MyAppointmentsPage from './pages/MyAppointmentsPage'
+import DoctorProfilePage from './pages/DoctorProfilePage'
 import AdminDashboard from './pages/AdminDashboard'
+import AdminLogin from './pages/AdminLogin'
+import RequireAdmin from './components/RequireAdmin'
+import LocaleSwitcher from './components/LocaleSwitcher'
+import { useAuth } from './hooks/useAuth'
+import { useTranslation } from './hooks/useTranslation'
+
+// Development-only accessibility overlay - not part of production builds.
+// Set VITE_A11Y_AUDIT=false to hide it while developing.
+const AccessibilityAudit =
+  import.meta.env.DEV && import.meta.env.VITE_A11Y_AUDIT !== 'false'
+    ? lazy(() => import('./components/AccessibilityAudit'))
+    : null
 
 /**
  * Main App component with layout structure
  * - Full-page background with medical gradient (light theme only)
- * - Modern navbar with glass effect and icons
+ * - Modern navbar with glass effect, icons and a language switcher
  * - Main content area with centered max-width container
- * - Routes for rendering page components
+ * - Routes for rendering page components (admin routes require sign-in)
+ * - Accessibility audit overlay in development
  */
 function App() {
+  const { isAuthenticated, logout } = useAuth()
+  // Reading the locale here re-renders every page when the language changes
+  const { t } = useTranslation()
+
   return (
     <div className="min-h-screen bg-med-bg">
       {/* Top Navigation Bar with Glass Effect - dark mode classes removed */}
@@ -34,15 +56,33 @@ function App() {
                 className="flex items-center gap-1.5 text-slate-600 hover:text-brand-600 font-medium transition-colors px-3 py-1.5 rounded-lg hover:bg-white/50"
               >
                 <Home className="w-4 h-4" aria-hidden="true" />
-                <span className="hidden sm:inline">Home</span>
+                <span className="hidden sm:inline">{t('nav.home')}</span>
+              </Link>
+              <Link
+                to="/my-appointments"
+                className="flex items-center gap-1.5 text-slate-600 hover:text-brand-600 font-medium transition-colors px-3 py-1.5 rounded-lg hover:bg-white/50"
+              >
+                <CalendarDays className="w-4 h-4" aria-hidden="true" />
+                <span className="hidden sm:inline">{t('nav.myAppointments')}</span>
               </Link>
               <Link
                 to="/admin"
                 className="flex items-center gap-1.5 rounded-lg bg-brand-500 hover:bg-brand-600 text-white px-4 py-2 text-sm font-medium shadow-md transition-all hover:shadow-lg"
               >
                 <Settings className="w-4 h-4" aria-hidden="true" />
-                <span className="hidden sm:inline">Admin</span>
+                <span className="hidden sm:inline">{t('nav.admin')}</span>
               </Link>
+              {isAuthenticated && (
+                <button
+                  type="button"
+                  onClick={logout}
+                  className="flex items-center gap-1.5 text-slate-600 hover:text-brand-600 font-medium transition-colors px-3 py-1.5 rounded-lg hover:bg-white/50"
+                >
+                  <LogOut className="w-4 h-4" aria-hidden="true" />
+                  <span className="hidden sm:inline">{t('nav.logOut')}</span>
+                </button>
+              )}
+              <LocaleSwitcher />
             </div>
           </div>
         </div>
@@ -52,10 +92,28 @@ function App() {
       <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Routes>
           <Route path="/" element={<UserHome />} />
+          <Route path="/doctors/:doctorId" element={<DoctorProfilePage />} />
           <Route path="/booking/:slotId" element={<BookingPage />} />
-          <Route path="/admin" element={<AdminDashboard />} />
+          <Route path="/my-appointments" element={<MyAppointmentsPage />} />
+          <Route path="/bookings/:bookingId" element={<BookingDetailsPage />} />
+          <Route path="/bookings/:bookingId/manage" element={<ManageBookingPage />} />
+          <Route path="/admin/login" element={<AdminLogin />} />
+          <Route
+            path="/admin"
+            element={
+              <RequireAdmin>
+                <AdminDashboard />
+              </RequireAdmin>
+            }
+          />
         </Routes>
       </main>
+
+      {AccessibilityAudit && (
+        <Suspense fallback={null}>
+          <AccessibilityAudit />
+        </Suspense>
+      )}
     </div>
   )
 }
@@ -0,0 +1,38 @@
+// src/api/authSession.ts
+/**
+ * authSession - Admin token shared between AuthContext and fetchApi
+ * AuthContext owns the session; fetchApi reads the token for /admin/* calls
+ * and reports 401/403 responses back so the session can be ended.
+ */
+
+let authToken: string | null = null
+const unauthorizedListeners = new Set<() => void>()
+
+/**
+ * Set (or clear with null) the bearer token sent with admin requests
+ */
+export function setAuthToken(token: string | null): void {
+  authToken = token
+}
+
+export function getAuthToken(): string | null {
+  return authToken
+}
+
+/**
+ * Subscribe to rejected admin requests (401/403)
+ * @returns Unsubscribe function
+ */
+export function onUnauthorized(listener: () => void): () => void {
+  unauthorizedListeners.add(listener)
+  return () => {
+    unauthorizedListeners.delete(listener)
+  }
+}
+
+/**
+ * Tell subscribers the backend rejected the current admin token
+ */
+export function notifyUnauthorized(): void {
+  unauthorizedListeners.forEach((listener) => listener())
+}
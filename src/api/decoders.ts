@@ -0,0 +1,300 @@
+// src/api/decoders.ts
+/**
+ * Runtime decoders for backend payloads
+ * Each decoder checks an unknown JSON value against a type from src/types and
+ * either returns a clean, typed value or throws a DecodeError naming the field
+ * that failed. List decoders drop invalid records instead of failing the whole list.
+ */
+
+import type {
+  Doctor,
+  AppointmentSlot,
+  Booking,
+  BookingDetails,
+  BookingStatus,
+  SlotAvailability,
+  AdminStats,
+  AdminSession,
+  HealthStatus,
+} from '../types'
+
+export type Decoder<T> = (value: unknown, path?: string) => T
+
+/**
+ * Thrown when a value does not match the expected shape
+ */
+export class DecodeError extends Error {
+  readonly path: string
+
+  constructor(path: string, reason: string) {
+    super(`${path || 'response'}: ${reason}`)
+    this.name = 'DecodeError'
+    this.path = path
+  }
+}
+
+export const BOOKING_STATUSES: readonly BookingStatus[] = ['PENDING', 'CONFIRMED', 'FAILED', 'CANCELLED']
+
+export const SLOT_AVAILABILITIES: readonly SlotAvailability[] = ['available', 'held', 'booked', 'past']
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value === 'string' ? `"${value}"` : typeof value
+}
+
+function fieldPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+function asRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new DecodeError(path, `expected object, got ${describe(value)}`)
+  }
+  return value as Record<string, unknown>
+}
+
+/**
+ * Numbers may arrive as numeric strings (PostgreSQL BIGINT / COUNT)
+ */
+function number(record: Record<string, unknown>, key: string, path: string): number {
+  const value = record[key]
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new DecodeError(fieldPath(path, key), `expected number, got ${describe(value)}`)
+  }
+  return parsed
+}
+
+function id(record: Record<string, unknown>, key: string, path: string): number {
+  const value = number(record, key, path)
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new DecodeError(fieldPath(path, key), `expected positive integer id, got ${value}`)
+  }
+  return value
+}
+
+function string(record: Record<string, unknown>, key: string, path: string): string {
+  const value = record[key]
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new DecodeError(fieldPath(path, key), `expected non-empty string, got ${describe(value)}`)
+  }
+  return value
+}
+
+function optionalString(
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): string | undefined {
+  const value = record[key]
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'string') {
+    throw new DecodeError(fieldPath(path, key), `expected string, got ${describe(value)}`)
+  }
+  return value
+}
+
+function optionalBoolean(
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): boolean | undefined {
+  const value = record[key]
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'boolean') {
+    throw new DecodeError(fieldPath(path, key), `expected boolean, got ${describe(value)}`)
+  }
+  return value
+}
+
+/**
+ * Optional list of strings; blank entries are dropped
+ */
+function optionalStringList(
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): string[] | undefined {
+  const value = record[key]
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new DecodeError(fieldPath(path, key), `expected array of strings, got ${describe(value)}`)
+  }
+  const items = (value as string[]).map((item) => item.trim()).filter(Boolean)
+  return items.length > 0 ? items : undefined
+}
+
+function dateTime(record: Record<string, unknown>, key: string, path: string): string {
+  const value = record[key]
+  if (typeof value !== 'string' || Number.isNaN(new Date(value).getTime())) {
+    throw new DecodeError(fieldPath(path, key), `expected ISO date-time, got ${describe(value)}`)
+  }
+  return value
+}
+
+function optionalDateTime(
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): string | undefined {
+  const value = record[key]
+  if (value === undefined || value === null) return undefined
+  return dateTime(record, key, path)
+}
+
+/**
+ * Slot availability, falling back to the older is_booked flag
+ * Backends that send neither only list open slots, so the default is 'available'.
+ */
+function slotAvailability(record: Record<string, unknown>, path: string): SlotAvailability {
+  const value = record.availability
+  if (value === undefined || value === null) {
+    return optionalBoolean(record, 'is_booked', path) ? 'booked' : 'available'
+  }
+  if (typeof value !== 'string' || !SLOT_AVAILABILITIES.includes(value as SlotAvailability)) {
+    throw new DecodeError(
+      fieldPath(path, 'availability'),
+      `expected one of ${SLOT_AVAILABILITIES.join(', ')}, got ${describe(value)}`
+    )
+  }
+  return value as SlotAvailability
+}
+
+/**
+ * Decode a Doctor
+ */
+export const decodeDoctor: Decoder<Doctor> = (value, path = '') => {
+  const record = asRecord(value, path)
+  return {
+    id: id(record, 'id', path),
+    name: string(record, 'name', path),
+    specialization: optionalString(record, 'specialization', path),
+    bio: optionalString(record, 'bio', path),
+    qualifications: optionalStringList(record, 'qualifications', path),
+    languages: optionalStringList(record, 'languages', path),
+    clinic_location: optionalString(record, 'clinic_location', path),
+    photo_url: optionalString(record, 'photo_url', path),
+    created_at: optionalDateTime(record, 'created_at', path),
+  }
+}
+
+/**
+ * Decode an AppointmentSlot
+ */
+export const decodeSlot: Decoder<AppointmentSlot> = (value, path = '') => {
+  const record = asRecord(value, path)
+  const duration = number(record, 'duration_minutes', path)
+  if (!Number.isInteger(duration) || duration <= 0) {
+    throw new DecodeError(
+      fieldPath(path, 'duration_minutes'),
+      `expected positive whole minutes, got ${duration}`
+    )
+  }
+  return {
+    id: id(record, 'id', path),
+    doctor_id: id(record, 'doctor_id', path),
+    start_time: dateTime(record, 'start_time', path),
+    duration_minutes: duration,
+    availability: slotAvailability(record, path),
+    created_at: optionalDateTime(record, 'created_at', path),
+  }
+}
+
+/**
+ * Decode a Booking
+ */
+export const decodeBooking: Decoder<Booking> = (value, path = '') => {
+  const record = asRecord(value, path)
+  const status = record.status
+  if (typeof status !== 'string' || !BOOKING_STATUSES.includes(status as BookingStatus)) {
+    throw new DecodeError(
+      fieldPath(path, 'status'),
+      `expected one of ${BOOKING_STATUSES.join(', ')}, got ${describe(status)}`
+    )
+  }
+  return {
+    id: id(record, 'id', path),
+    slot_id: id(record, 'slot_id', path),
+    patient_name: string(record, 'patient_name', path),
+    patient_email: optionalString(record, 'patient_email', path),
+    status: status as BookingStatus,
+    expires_at: record.expires_at === null ? null : optionalDateTime(record, 'expires_at', path),
+    created_at: optionalDateTime(record, 'created_at', path),
+    updated_at: optionalDateTime(record, 'updated_at', path),
+    manage_token: optionalString(record, 'manage_token', path),
+  }
+}
+
+/**
+ * Decode a Booking with the slot and doctor the backend may embed
+ */
+export const decodeBookingDetails: Decoder<BookingDetails> = (value, path = '') => {
+  const record = asRecord(value, path)
+  const details: BookingDetails = decodeBooking(record, path)
+  if (record.slot !== undefined && record.slot !== null) {
+    details.slot = decodeSlot(record.slot, fieldPath(path, 'slot'))
+  }
+  if (record.doctor !== undefined && record.doctor !== null) {
+    details.doctor = decodeDoctor(record.doctor, fieldPath(path, 'doctor'))
+  }
+  return details
+}
+
+/**
+ * Decode the admin statistics payload, keeping any extra fields
+ */
+export const decodeAdminStats: Decoder<AdminStats> = (value, path = '') => {
+  const record = asRecord(value, path)
+  return {
+    ...record,
+    totalDoctors: number(record, 'totalDoctors', path),
+    totalSlots: number(record, 'totalSlots', path),
+    totalBookings: number(record, 'totalBookings', path),
+  }
+}
+
+/**
+ * Decode the /admin/login response
+ */
+export const decodeAdminSession: Decoder<AdminSession> = (value, path = '') => {
+  const record = asRecord(value, path)
+  return {
+    token: string(record, 'token', path),
+    username: optionalString(record, 'username', path),
+    expires_at: optionalDateTime(record, 'expires_at', path),
+  }
+}
+
+/**
+ * Decode the /health payload, keeping any extra fields
+ */
+export const decodeHealthStatus: Decoder<HealthStatus> = (value, path = '') => {
+  const record = asRecord(value, path)
+  return { ...record, status: string(record, 'status', path) }
+}
+
+/**
+ * Build a decoder for a list of records
+ * Invalid records are dropped and reported with console.warn, so one bad
+ * row from the backend never blanks out a whole page.
+ * @param decodeItem - Decoder for a single record
+ * @param label - Record name used in the warning (e.g. "slot")
+ */
+export function decodeList<T>(decodeItem: Decoder<T>, label: string): Decoder<T[]> {
+  return (value, path = '') => {
+    if (!Array.isArray(value)) {
+      throw new DecodeError(path, `expected array, got ${describe(value)}`)
+    }
+    const items: T[] = []
+    value.forEach((item, index) => {
+      try {
+        items.push(decodeItem(item, `${path}[${index}]`))
+      } catch (error) {
+        if (!(error instanceof DecodeError)) throw error
+        console.warn(`Dropped invalid ${label} record - ${error.message}`, item)
+      }
+    })
+    return items
+  }
+}
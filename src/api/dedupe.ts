@@ -0,0 +1,87 @@
+// src/api/dedupe.ts
+/**
+ * In-flight request deduplication
+ * Identical GET requests issued while one is already pending share a single fetch.
+ * Each caller keeps its own AbortSignal: aborting one caller only rejects that caller,
+ * and the shared fetch is cancelled once every caller has aborted.
+ */
+
+import { createAbortError } from './errors'
+
+interface InFlightRequest {
+  promise: Promise<unknown>
+  controller: AbortController
+  subscribers: number
+}
+
+const inFlight = new Map<string, InFlightRequest>()
+
+/**
+ * Run a request, joining an identical one that is already in flight
+ * @param key - Cache key identifying the request (method, URL and credentials)
+ * @param execute - Performs the request with the shared AbortSignal
+ * @param signal - The caller's own AbortSignal (optional)
+ */
+export function dedupeRequest<T>(
+  key: string,
+  execute: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal | null
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError())
+  }
+
+  let entry = inFlight.get(key)
+  if (!entry) {
+    const controller = new AbortController()
+    const created: InFlightRequest = {
+      controller,
+      subscribers: 0,
+      promise: execute(controller.signal).finally(() => {
+        if (inFlight.get(key) === created) {
+          inFlight.delete(key)
+        }
+      }),
+    }
+    inFlight.set(key, created)
+    entry = created
+  }
+
+  const shared = entry
+  shared.subscribers += 1
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false
+
+    const onAbort = () => {
+      if (settled) return
+      settled = true
+      shared.subscribers -= 1
+      // Last interested caller gone - cancel the underlying fetch
+      if (shared.subscribers === 0) {
+        shared.controller.abort()
+        if (inFlight.get(key) === shared) {
+          inFlight.delete(key)
+        }
+      }
+      reject(createAbortError())
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    shared.promise.then(
+      (value) => {
+        signal?.removeEventListener('abort', onAbort)
+        if (settled) return
+        settled = true
+        resolve(value as T)
+      },
+      (error) => {
+        signal?.removeEventListener('abort', onAbort)
+        if (settled) return
+        settled = true
+        reject(error)
+      }
+    )
+  })
+}
@@ -0,0 +1,212 @@
+// src/api/errors.ts
+/**
+ * API error model - typed errors thrown by fetchApi
+ * Every error that comes back from the backend carries its HTTP status
+ * and the parsed response body so callers can branch on the failure kind
+ */
+
+/**
+ * Field-level validation messages keyed by request field name
+ */
+export type FieldErrors = Record<string, string>
+
+/**
+ * Base class for every error raised by the API layer
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly body: unknown
+
+  constructor(message: string, status: number, body: unknown = null) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.body = body
+  }
+}
+
+/**
+ * The request never reached the backend (offline, DNS, CORS, server down)
+ */
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach the server. Please check your connection.') {
+    super(message, 0)
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * 400 / 422 - the backend rejected the payload
+ * fieldErrors maps request fields (e.g. "start_time") to their messages
+ */
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors
+
+  constructor(message: string, status: number, body: unknown, fieldErrors: FieldErrors) {
+    super(message, status, body)
+    this.name = 'ValidationError'
+    this.fieldErrors = fieldErrors
+  }
+}
+
+/**
+ * 401 - missing, invalid or expired admin token
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, body: unknown = null) {
+    super(message, 401, body)
+    this.name = 'UnauthorizedError'
+  }
+}
+
+/**
+ * 403 - the token is valid but not allowed to perform this action
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message: string, body: unknown = null) {
+    super(message, 403, body)
+    this.name = 'ForbiddenError'
+  }
+}
+
+/**
+ * 404 - the requested doctor, slot or booking does not exist
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, body: unknown = null) {
+    super(message, 404, body)
+    this.name = 'NotFoundError'
+  }
+}
+
+/**
+ * 409 - the slot was booked by someone else first
+ */
+export class SlotConflictError extends ApiError {
+  constructor(message: string, body: unknown = null) {
+    super(message, 409, body)
+    this.name = 'SlotConflictError'
+  }
+}
+
+/**
+ * 5xx - the backend failed while handling the request
+ */
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, body: unknown = null) {
+    super(message, status, body)
+    this.name = 'ServerError'
+  }
+}
+
+/**
+ * Read the human-readable message from a backend error body
+ * Backend responds with { error: '...' } or { message: '...' }
+ */
+function extractMessage(body: unknown): string | null {
+  if (typeof body === 'string' && body.trim()) return body.trim()
+  if (body && typeof body === 'object') {
+    const record = body as Record<string, unknown>
+    if (typeof record.error === 'string') return record.error
+    if (typeof record.message === 'string') return record.message
+  }
+  return null
+}
+
+/**
+ * Collect field-level messages from a validation error body
+ * Accepts { errors: { field: msg } } as well as
+ * { errors | details: [{ field | path | param, message | msg }] }
+ */
+function extractFieldErrors(body: unknown): FieldErrors {
+  const fieldErrors: FieldErrors = {}
+  if (!body || typeof body !== 'object') return fieldErrors
+
+  const record = body as Record<string, unknown>
+  const source = record.errors ?? record.details ?? record.fields
+
+  if (Array.isArray(source)) {
+    for (const item of source) {
+      if (!item || typeof item !== 'object') continue
+      const entry = item as Record<string, unknown>
+      const field = entry.field ?? entry.path ?? entry.param
+      const message = entry.message ?? entry.msg
+      if (typeof field === 'string' && typeof message === 'string') {
+        fieldErrors[field] = message
+      }
+    }
+  } else if (source && typeof source === 'object') {
+    for (const [field, message] of Object.entries(source as Record<string, unknown>)) {
+      if (typeof message === 'string') {
+        fieldErrors[field] = message
+      } else if (Array.isArray(message) && typeof message[0] === 'string') {
+        fieldErrors[field] = message[0]
+      }
+    }
+  }
+
+  return fieldErrors
+}
+
+/**
+ * Build the matching ApiError subclass for a non-2xx response
+ * @param status - HTTP status code
+ * @param statusText - HTTP status text, used when the body has no message
+ * @param body - Parsed JSON body (or raw text) of the response
+ */
+export function createApiError(status: number, statusText: string, body: unknown): ApiError {
+  const message = extractMessage(body) ?? `API Error: ${status} ${statusText}`.trim()
+
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, status, body, extractFieldErrors(body))
+  }
+  if (status === 401) {
+    return new UnauthorizedError(message, body)
+  }
+  if (status === 403) {
+    return new ForbiddenError(message, body)
+  }
+  if (status === 404) {
+    return new NotFoundError(message, body)
+  }
+  if (status === 409) {
+    return new SlotConflictError(message, body)
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, body)
+  }
+  return new ApiError(message, status, body)
+}
+
+/**
+ * Create the error used when a request is cancelled through its AbortSignal
+ * Matches what fetch itself throws so callers only need isAbortError()
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('The request was aborted', 'AbortError')
+}
+
+/**
+ * True when the error comes from a cancelled request
+ * Aborted requests are expected (e.g. superseded by a newer one) and should not be shown to the user
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof DOMException || error instanceof Error) &&
+    error.name === 'AbortError'
+  )
+}
+
+/**
+ * A 2xx response whose body does not match the expected shape
+ * field is the path of the first offending value (e.g. "[2].start_time")
+ */
+export class InvalidResponseError extends ApiError {
+  readonly field: string
+
+  constructor(message: string, status: number, body: unknown, field: string) {
+    super(message, status, body)
+    this.name = 'InvalidResponseError'
+    this.field = field
+  }
+}
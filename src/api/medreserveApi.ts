@@ -4,66 +4,333 @@
  * This file will contain all API calls for the MedReserve application
  */
 
-import type { Doctor, AppointmentSlot, Booking } from '../types'
+import type {
+  Doctor,
+  DoctorInput,
+  AppointmentSlot,
+  Booking,
+  BookingDetails,
+  AdminStats,
+  AdminSession,
+  HealthStatus,
+} from '../types'
+import {
+  ApiError,
+  ForbiddenError,
+  InvalidResponseError,
+  NetworkError,
+  NotFoundError,
+  UnauthorizedError,
+  createApiError,
+  isAbortError,
+} from './errors'
+import {
+  DecodeError,
+  decodeAdminSession,
+  decodeAdminStats,
+  decodeBooking,
+  decodeBookingDetails,
+  decodeDoctor,
+  decodeHealthStatus,
+  decodeList,
+  decodeSlot,
+} from './decoders'
+import type { Decoder } from './decoders'
+import { dedupeRequest } from './dedupe'
+import { getAuthToken, notifyUnauthorized } from './authSession'
+import { DEFAULT_RETRY_OPTIONS, withRetry } from './retry'
+import type { RetryOptions } from './retry'
 
 // Base API URL - can be configured via environment variables
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:4000/api"
 
+// Health check lives outside the /api prefix (see postman-collection.json)
+const HEALTH_URL =
+  import.meta.env.VITE_HEALTH_URL || `${API_BASE_URL.replace(/\/api\/?$/, '')}/health`
+
+// Serve every request from the in-browser mock backend (src/api/mock) instead of the network
+const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === 'true'
+
+/**
+ * Per-call options accepted by the API functions
+ * signal - cancels the request; the promise then rejects with an AbortError (see isAbortError)
+ */
+export interface RequestOptions {
+  signal?: AbortSignal
+}
+
+/**
+ * Header carrying a booking's manage_token - proves the caller owns the booking
+ */
+const MANAGE_TOKEN_HEADER = 'X-Manage-Token'
+
+/**
+ * Options for GET /bookings/:id
+ * manageToken - sent as X-Manage-Token when this device has it; optional, as
+ * the booking can be read by ID alone
+ */
+export interface BookingReadOptions extends RequestOptions {
+  manageToken?: string
+}
+
+/**
+ * Options for POST /slots/:id/book
+ * idempotencyKey - sent as the Idempotency-Key header; makes the booking safe to retry
+ * onRetry - called before each automatic retry so the UI can show "retrying…"
+ */
+export interface BookingRequestOptions extends RequestOptions {
+  idempotencyKey?: string
+  onRetry?: (attempt: number, error: unknown) => void
+}
+
+/**
+ * fetchApi options - RequestInit plus retry behaviour and response decoding
+ * GETs retry transient failures by default; other methods only when retry is given.
+ * decode validates the parsed body; without it the body is returned unchecked.
+ */
+interface FetchOptions<T> extends RequestInit {
+  retry?: RetryOptions | false
+  decode?: Decoder<T>
+}
+
+const decodeDoctorList = decodeList(decodeDoctor, 'doctor')
+const decodeSlotList = decodeList(decodeSlot, 'slot')
+
+const ADMIN_LOGIN_ENDPOINT = '/admin/login'
+
+/**
+ * Admin endpoints that need the bearer token (everything under /admin except login)
+ */
+function isProtectedAdminEndpoint(endpoint: string): boolean {
+  return endpoint.startsWith('/admin/') && endpoint !== ADMIN_LOGIN_ENDPOINT
+}
+
+/**
+ * Request body for creating a doctor - optional profile fields are only sent when set
+ */
+function doctorPayload(doctor: DoctorInput): DoctorInput {
+  return {
+    name: doctor.name,
+    specialization: doctor.specialization,
+    bio: doctor.bio,
+    qualifications: doctor.qualifications?.length ? doctor.qualifications : undefined,
+    languages: doctor.languages?.length ? doctor.languages : undefined,
+    clinic_location: doctor.clinic_location,
+    photo_url: doctor.photo_url,
+  }
+}
+
+/**
+ * Create a fresh idempotency key for a booking attempt
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+}
+
+/**
+ * Parse a response body as JSON, falling back to raw text
+ * Returns null for empty bodies (e.g. 204 No Content)
+ */
+async function parseBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
 /**
  * Generic fetch wrapper with error handling
+ * Throws an ApiError subclass (see ./errors) for network failures and non-2xx responses.
+ * GET requests are deduplicated (identical requests in flight share one fetch) and
+ * retried with exponential backoff on transient failures.
+ * /admin/* requests carry the admin bearer token; a 401/403 ends the admin session.
  */
-async function fetchApi<T>(
+function fetchApi<T>(
   endpoint: string,
-  options?: RequestInit
+  options?: FetchOptions<T>
 ): Promise<T> {
+  if (!isProtectedAdminEndpoint(endpoint)) {
+    return sendRequest(endpoint, options)
+  }
+
+  const token = getAuthToken()
+  const headers = new Headers(options?.headers)
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`)
+  }
+
+  return sendRequest(endpoint, { ...options, headers }).catch((error: unknown) => {
+    if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+      notifyUnauthorized()
+    }
+    throw error
+  })
+}
+
+/**
+ * Apply retry and deduplication, then execute the request
+ */
+function sendRequest<T>(endpoint: string, options?: FetchOptions<T>): Promise<T> {
   const url = `${API_BASE_URL}${endpoint}`
+  const { retry, decode, ...init } = options ?? {}
+  const method = (init.method ?? 'GET').toUpperCase()
+  const retryOptions = retry === false ? null : retry ?? (method === 'GET' ? DEFAULT_RETRY_OPTIONS : null)
+
+  const run = (signal?: AbortSignal | null) => {
+    const attempt = () => executeRequest<T>(url, { ...init, signal }, decode)
+    return retryOptions ? withRetry(attempt, retryOptions, signal) : attempt()
+  }
+
+  if (method === 'GET') {
+    return dedupeRequest<T>(dedupeKey(method, url, init.headers), run, init.signal)
+  }
 
+  return run(init.signal)
+}
+
+/**
+ * Key for sharing an in-flight GET
+ * Includes the credentials sent, so callers with different tokens never share a response.
+ */
+function dedupeKey(method: string, url: string, headersInit?: HeadersInit): string {
+  const headers = new Headers(headersInit)
+  const credentials = [headers.get('Authorization'), headers.get(MANAGE_TOKEN_HEADER)]
+  return [method, url, ...credentials.map((value) => value ?? '')].join(' ')
+}
+
+/**
+ * Perform a single request and map failures to ApiError subclasses
+ * A body that fails decode raises InvalidResponseError naming the offending field
+ */
+async function executeRequest<T>(
+  url: string,
+  options?: RequestInit,
+  decode?: Decoder<T>
+): Promise<T> {
+  const headers = new Headers(options?.headers)
+  if (!headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json')
+  }
+
+  let response: Response
   try {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`API Error: ${response.status} ${response.statusText}`)
-    }
+    // The mock is only loaded when enabled, keeping it out of production bundles
+    const transport = USE_MOCK_API ? (await import('./mock/mockBackend')).mockFetch : fetch
+    response = await transport(url, { ...options, headers })
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    console.error('API request failed:', error)
+    throw new NetworkError()
+  }
 
-    return await response.json()
+  let body: unknown
+  try {
+    body = await parseBody(response)
   } catch (error) {
+    if (isAbortError(error)) throw error
+    console.error('API request failed:', error)
+    throw new NetworkError('The connection was interrupted while reading the response.')
+  }
+
+  if (!response.ok) {
+    const error = createApiError(response.status, response.statusText, body)
+    console.error('API request failed:', error)
+    throw error
+  }
+
+  if (typeof body === 'string') {
+    const error = new ApiError('Unexpected response from server', response.status, body)
     console.error('API request failed:', error)
     throw error
   }
+
+  if (!decode) return body as T
+
+  try {
+    return decode(body)
+  } catch (error) {
+    if (!(error instanceof DecodeError)) throw error
+    const invalid = new InvalidResponseError(
+      `Unexpected response from server (${error.message})`,
+      response.status,
+      body,
+      error.path
+    )
+    console.error('API request failed:', invalid)
+    throw invalid
+  }
 }
 
 /**
  * Fetch all available doctors
+ * @param options - Request options (AbortSignal)
  */
-export async function getDoctors(): Promise<Doctor[]> {
-  return fetchApi<Doctor[]>('/doctors')
+export async function getDoctors(options?: RequestOptions): Promise<Doctor[]> {
+  return fetchApi<Doctor[]>('/doctors', { signal: options?.signal, decode: decodeDoctorList })
+}
+
+/**
+ * Fetch a single doctor's profile
+ * @param doctorId - The ID of the doctor
+ * @param options - Request options (AbortSignal)
+ */
+export async function getDoctor(doctorId: number, options?: RequestOptions): Promise<Doctor> {
+  return fetchApi<Doctor>(`/doctors/${doctorId}`, { signal: options?.signal, decode: decodeDoctor })
 }
 
 /**
  * Fetch available slots for a specific doctor
  * @param doctorId - The ID of the doctor
+ * @param options - Request options (AbortSignal)
  */
-export async function getDoctorSlots(doctorId: number): Promise<AppointmentSlot[]> {
-  return fetchApi<AppointmentSlot[]>(`/doctors/${doctorId}/slots`)
+export async function getDoctorSlots(
+  doctorId: number,
+  options?: RequestOptions
+): Promise<AppointmentSlot[]> {
+  return fetchApi<AppointmentSlot[]>(`/doctors/${doctorId}/slots`, {
+    signal: options?.signal,
+    decode: decodeSlotList,
+  })
+}
+
+/**
+ * Get a single slot by ID, including whether it is already booked
+ * @param slotId - The ID of the slot
+ * @param options - Optional AbortSignal to cancel the request
+ */
+export async function getSlot(slotId: number, options?: RequestOptions): Promise<AppointmentSlot> {
+  return fetchApi<AppointmentSlot>(`/slots/${slotId}`, {
+    signal: options?.signal,
+    decode: decodeSlot,
+  })
 }
 
 /**
  * Book an appointment for a specific slot
+ * With an idempotency key the POST is retried on transient failures: the backend
+ * returns the original booking for a repeated key instead of creating a second one.
  * @param slotId - The ID of the slot to book
  * @param patientData - Patient information for the booking
+ * @param options - Idempotency key, retry callback and AbortSignal
  */
 export async function bookAppointment(
   slotId: number,
-  patientData: { name: string; email?: string }
+  patientData: { name: string; email?: string },
+  options?: BookingRequestOptions
 ): Promise<Booking> {
+  const idempotencyKey = options?.idempotencyKey
   return fetchApi<Booking>(`/slots/${slotId}/book`, {
     method: 'POST',
+    signal: options?.signal,
+    headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    retry: idempotencyKey ? { ...DEFAULT_RETRY_OPTIONS, onRetry: options?.onRetry } : false,
+    decode: decodeBooking,
     body: JSON.stringify({
       patient_name: patientData.name,
       patient_email: patientData.email,
@@ -71,20 +338,93 @@ export async function bookAppointment(
   })
 }
 
+/**
+ * Get a booking by ID, with its slot and doctor when the backend includes them
+ * @param bookingId - The ID of the booking
+ * @param options - Optional manage token and AbortSignal
+ */
+export async function getBooking(
+  bookingId: number,
+  options?: BookingReadOptions
+): Promise<BookingDetails> {
+  const manageToken = options?.manageToken
+  return fetchApi<BookingDetails>(`/bookings/${bookingId}`, {
+    signal: options?.signal,
+    headers: manageToken ? { [MANAGE_TOKEN_HEADER]: manageToken } : undefined,
+    decode: decodeBookingDetails,
+  })
+}
+
+/**
+ * Find a booking by its reference and the email it was made with
+ * Reads GET /bookings/:id and compares the email here. A wrong email gets the
+ * same NotFoundError as an unknown reference.
+ * @param lookup - Booking reference (ID) and patient email
+ * @param options - Optional AbortSignal to cancel the request
+ */
+export async function lookupBooking(
+  lookup: { bookingId: number; email: string },
+  options?: RequestOptions
+): Promise<BookingDetails> {
+  const booking = await getBooking(lookup.bookingId, options)
+  if (booking.patient_email?.toLowerCase() !== lookup.email.trim().toLowerCase()) {
+    throw new NotFoundError('No booking matches that reference and email')
+  }
+  return booking
+}
+
+/**
+ * Cancel a booking and free its slot
+ * @param bookingId - The ID of the booking
+ * @param manageToken - The booking's manage_token, returned when it was made
+ * @param options - Optional AbortSignal to cancel the request
+ */
+export async function cancelBooking(
+  bookingId: number,
+  manageToken: string,
+  options?: RequestOptions
+): Promise<BookingDetails> {
+  return fetchApi<BookingDetails>(`/bookings/${bookingId}/cancel`, {
+    method: 'POST',
+    signal: options?.signal,
+    headers: { [MANAGE_TOKEN_HEADER]: manageToken },
+    decode: decodeBookingDetails,
+  })
+}
+
+/**
+ * Move a booking to another slot with the same doctor
+ * The backend swaps the slot in one transaction, so the booking is never
+ * left without a slot and the old slot is released in the same step.
+ * @param bookingId - The ID of the booking
+ * @param slotId - The ID of the new slot
+ * @param manageToken - The booking's manage_token, returned when it was made
+ * @param options - Optional AbortSignal to cancel the request
+ */
+export async function rescheduleBooking(
+  bookingId: number,
+  slotId: number,
+  manageToken: string,
+  options?: RequestOptions
+): Promise<BookingDetails> {
+  return fetchApi<BookingDetails>(`/bookings/${bookingId}/reschedule`, {
+    method: 'POST',
+    signal: options?.signal,
+    headers: { [MANAGE_TOKEN_HEADER]: manageToken },
+    decode: decodeBookingDetails,
+    body: JSON.stringify({ slot_id: slotId }),
+  })
+}
+
 /**
  * Create a new doctor
- * @param doctorData - Doctor information (name required, specialization optional)
+ * @param doctorData - Doctor information (name required, profile fields optional)
  */
-export async function createDoctor(doctorData: {
-  name: string
-  specialization?: string
-}): Promise<Doctor> {
+export async function createDoctor(doctorData: DoctorInput): Promise<Doctor> {
   return fetchApi<Doctor>('/doctors', {
     method: 'POST',
-    body: JSON.stringify({
-      name: doctorData.name,
-      specialization: doctorData.specialization,
-    }),
+    decode: decodeDoctor,
+    body: JSON.stringify(doctorPayload(doctorData)),
   })
 }
 
@@ -102,6 +442,7 @@ export async function createSlot(
 ): Promise<AppointmentSlot> {
   return fetchApi<AppointmentSlot>(`/doctors/${doctorId}/slots`, {
     method: 'POST',
+    decode: decodeSlot,
     body: JSON.stringify({
       start_time: slotData.start_time,
       duration_minutes: slotData.duration_minutes,
@@ -114,27 +455,43 @@ export async function createSlot(
  */
 
 /**
- * Create a new doctor via admin endpoint
- * @param payload - Doctor information (name required, specialization optional)
+ * Sign in as an administrator
+ * The returned token is sent as a bearer header on every other /admin call
+ * @param credentials - Admin username and password
  */
-export async function createAdminDoctor(payload: {
-  name: string
-  specialization?: string
-}): Promise<Doctor> {
-  return fetchApi<Doctor>('/admin/doctors', {
+export async function loginAdmin(credentials: {
+  username: string
+  password: string
+}): Promise<AdminSession> {
+  const session = await fetchApi<AdminSession>(ADMIN_LOGIN_ENDPOINT, {
     method: 'POST',
+    decode: decodeAdminSession,
     body: JSON.stringify({
-      name: payload.name,
-      specialization: payload.specialization,
+      username: credentials.username,
+      password: credentials.password,
     }),
   })
+  return { ...session, username: session.username ?? credentials.username }
+}
+
+/**
+ * Create a new doctor via admin endpoint
+ * @param payload - Doctor information (name required, profile fields optional)
+ */
+export async function createAdminDoctor(payload: DoctorInput): Promise<Doctor> {
+  return fetchApi<Doctor>('/admin/doctors', {
+    method: 'POST',
+    decode: decodeDoctor,
+    body: JSON.stringify(doctorPayload(payload)),
+  })
 }
 
 /**
  * Get all doctors via admin endpoint
+ * @param options - Request options (AbortSignal)
  */
-export async function getAdminDoctors(): Promise<Doctor[]> {
-  return fetchApi<Doctor[]>('/admin/doctors')
+export async function getAdminDoctors(options?: RequestOptions): Promise<Doctor[]> {
+  return fetchApi<Doctor[]>('/admin/doctors', { signal: options?.signal, decode: decodeDoctorList })
 }
 
 /**
@@ -148,6 +505,7 @@ export async function createAdminSlot(payload: {
 }): Promise<AppointmentSlot> {
   return fetchApi<AppointmentSlot>('/admin/slots', {
     method: 'POST',
+    decode: decodeSlot,
     body: JSON.stringify({
       doctor_id: payload.doctor_id,
       start_time: payload.start_time,
@@ -159,21 +517,32 @@ export async function createAdminSlot(payload: {
 /**
  * Get slots for a specific doctor via admin endpoint
  * @param doctorId - The ID of the doctor
+ * @param options - Request options (AbortSignal)
  */
-export async function getAdminDoctorSlots(doctorId: number): Promise<AppointmentSlot[]> {
-  return fetchApi<AppointmentSlot[]>(`/admin/doctors/${doctorId}/slots`)
+export async function getAdminDoctorSlots(
+  doctorId: number,
+  options?: RequestOptions
+): Promise<AppointmentSlot[]> {
+  return fetchApi<AppointmentSlot[]>(`/admin/doctors/${doctorId}/slots`, {
+    signal: options?.signal,
+    decode: decodeSlotList,
+  })
 }
 
 /**
  * Get admin statistics
+ * @param options - Request options (AbortSignal)
+ */
+export async function getAdminStats(options?: RequestOptions): Promise<AdminStats> {
+  return fetchApi<AdminStats>('/admin/stats', { signal: options?.signal, decode: decodeAdminStats })
+}
+
+/**
+ * Check backend health (GET /health)
+ * @param options - Request options (AbortSignal)
  */
-export async function getAdminStats(): Promise<{
-  totalDoctors: number
-  totalSlots: number
-  totalBookings: number
-  [key: string]: unknown
-}> {
-  return fetchApi('/admin/stats')
+export async function getHealth(options?: RequestOptions): Promise<HealthStatus> {
+  return executeRequest<HealthStatus>(HEALTH_URL, { signal: options?.signal }, decodeHealthStatus)
 }
 
-export { fetchApi, API_BASE_URL }
+export { fetchApi, API_BASE_URL, USE_MOCK_API }
@@ -0,0 +1,564 @@
+// src/api/mock/mockBackend.ts
+/**
+ * mockBackend - In-browser implementation of the MedReserve REST API
+ * Enabled with VITE_USE_MOCK_API=true; fetchApi then sends every request here
+ * instead of the network. Implements every endpoint in postman-collection.json
+ * with the backend's semantics:
+ * - bookings start PENDING with expires_at two minutes out
+ * - PENDING bookings are confirmed after VITE_MOCK_CONFIRM_DELAY_MS
+ *   ("never" keeps them pending so the expiry can be exercised)
+ * - PENDING bookings past expires_at become FAILED and release the slot
+ * - a slot held by a PENDING or CONFIRMED booking answers 409
+ * - slots are served with availability (available, held, booked, past)
+ * - a repeated Idempotency-Key returns the original booking
+ * - cancelling or rescheduling a booking needs its manage_token (X-Manage-Token);
+ *   reading one does not, but a token that is sent has to match
+ * - cancelling or rescheduling releases the old slot in the same step
+ * - /admin/* (except /admin/login) requires a bearer token from /admin/login
+ */
+
+import type { AppointmentSlot, SlotAvailability } from '../../types'
+import { createAbortError } from '../errors'
+import { getDatabase, saveDatabase } from './mockDb'
+import type { MockBooking, MockDatabase, MockSlot } from './mockDb'
+
+const BOOKING_EXPIRY_MS = 2 * 60 * 1000
+
+// Simulated network latency so loading states are visible
+const LATENCY_MS = Number(import.meta.env.VITE_MOCK_LATENCY_MS ?? 300)
+
+// Credentials accepted by POST /admin/login
+const ADMIN_USERNAME = import.meta.env.VITE_MOCK_ADMIN_USERNAME || 'admin'
+const ADMIN_PASSWORD = import.meta.env.VITE_MOCK_ADMIN_PASSWORD || 'admin123'
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000
+
+// Time until a PENDING booking is confirmed; null means never
+const CONFIRM_DELAY_MS =
+  import.meta.env.VITE_MOCK_CONFIRM_DELAY_MS === 'never'
+    ? null
+    : Number(import.meta.env.VITE_MOCK_CONFIRM_DELAY_MS ?? 3000)
+
+interface MockRequest {
+  method: string
+  params: string[]
+  body: Record<string, unknown>
+  headers: Headers
+}
+
+interface MockResponse {
+  status: number
+  body: unknown
+}
+
+type FieldProblem = { field: string; message: string }
+
+function json(status: number, body: unknown): MockResponse {
+  return { status, body }
+}
+
+function notFound(message: string): MockResponse {
+  return json(404, { error: message })
+}
+
+function validationFailed(errors: FieldProblem[]): MockResponse {
+  return json(400, { error: errors[0]?.message ?? 'Validation failed', errors })
+}
+
+/**
+ * Apply booking confirmation and expiry that are due
+ * The real backend does this in the booking transaction and in the
+ * expiry job (every 30 seconds); the mock evaluates it on every request.
+ */
+function sweepBookings(db: MockDatabase, now: number): void {
+  for (const booking of db.bookings) {
+    if (booking.status !== 'PENDING') continue
+    const createdAt = Date.parse(booking.created_at ?? '')
+    const expiresAt = booking.expires_at ? Date.parse(booking.expires_at) : Infinity
+    const confirmAt = CONFIRM_DELAY_MS === null ? Infinity : createdAt + CONFIRM_DELAY_MS
+
+    if (confirmAt <= now && confirmAt < expiresAt) {
+      booking.status = 'CONFIRMED'
+      booking.expires_at = null
+      booking.updated_at = new Date(confirmAt).toISOString()
+    } else if (expiresAt <= now) {
+      booking.status = 'FAILED'
+      booking.updated_at = new Date(expiresAt).toISOString()
+    }
+  }
+}
+
+function findActiveBooking(db: MockDatabase, slotId: number): MockBooking | undefined {
+  return db.bookings.find(
+    (booking) =>
+      booking.slot_id === slotId && (booking.status === 'PENDING' || booking.status === 'CONFIRMED')
+  )
+}
+
+/**
+ * Slot row with its availability as of now
+ */
+function withAvailability(db: MockDatabase, slot: MockSlot): AppointmentSlot {
+  const booking = findActiveBooking(db, slot.id)
+  let availability: SlotAvailability = 'available'
+  if (booking) {
+    availability = booking.status === 'CONFIRMED' ? 'booked' : 'held'
+  } else if (Date.parse(slot.start_time) <= Date.now()) {
+    availability = 'past'
+  }
+  return { ...slot, availability }
+}
+
+function parseId(value: string): number {
+  return Number.parseInt(value, 10)
+}
+
+function isEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+}
+
+/**
+ * Validate and create a doctor (shared by POST /doctors and POST /admin/doctors)
+ */
+function createDoctor(db: MockDatabase, body: Record<string, unknown>): MockResponse {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    return validationFailed([{ field: 'name', message: 'Name is required' }])
+  }
+  const problems: FieldProblem[] = []
+  const text = (key: string) => {
+    const value = body[key]
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined
+  }
+  const list = (key: string) => {
+    const value = body[key]
+    if (value === undefined || value === null) return undefined
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      problems.push({ field: key, message: `${key} must be a list of strings` })
+      return undefined
+    }
+    const items = value.map((item: string) => item.trim()).filter(Boolean)
+    return items.length > 0 ? items : undefined
+  }
+
+  const photoUrl = text('photo_url')
+  if (photoUrl && !/^https?:\/\/\S+$/.test(photoUrl)) {
+    problems.push({ field: 'photo_url', message: 'photo_url must be an http(s) URL' })
+  }
+  const qualifications = list('qualifications')
+  const languages = list('languages')
+  if (problems.length > 0) {
+    return validationFailed(problems)
+  }
+
+  const doctor = {
+    id: db.nextIds.doctor++,
+    name,
+    specialization: text('specialization'),
+    bio: text('bio'),
+    qualifications,
+    languages,
+    clinic_location: text('clinic_location'),
+    photo_url: photoUrl,
+    created_at: new Date().toISOString(),
+  }
+  db.doctors.push(doctor)
+  return json(201, doctor)
+}
+
+/**
+ * Validate and create a slot (shared by POST /doctors/:id/slots and POST /admin/slots)
+ */
+function createSlot(db: MockDatabase, doctorId: unknown, body: Record<string, unknown>): MockResponse {
+  const problems: FieldProblem[] = []
+  const id = typeof doctorId === 'number' ? doctorId : Number(doctorId)
+  if (!db.doctors.some((doctor) => doctor.id === id)) {
+    problems.push({ field: 'doctor_id', message: 'Doctor not found' })
+  }
+  const startTime = typeof body.start_time === 'string' ? Date.parse(body.start_time) : NaN
+  if (Number.isNaN(startTime)) {
+    problems.push({ field: 'start_time', message: 'start_time must be a valid ISO date-time' })
+  }
+  const duration = body.duration_minutes === undefined ? 15 : Number(body.duration_minutes)
+  if (!Number.isInteger(duration) || duration <= 0) {
+    problems.push({ field: 'duration_minutes', message: 'duration_minutes must be a positive integer' })
+  }
+  if (problems.length > 0) {
+    return validationFailed(problems)
+  }
+
+  const slot = {
+    id: db.nextIds.slot++,
+    doctor_id: id,
+    start_time: new Date(startTime).toISOString(),
+    duration_minutes: duration,
+    created_at: new Date().toISOString(),
+  }
+  db.slots.push(slot)
+  return json(201, withAvailability(db, slot))
+}
+
+function listDoctorSlots(db: MockDatabase, doctorId: number): MockResponse {
+  if (!db.doctors.some((doctor) => doctor.id === doctorId)) {
+    return notFound('Doctor not found')
+  }
+  const slots = db.slots
+    .filter((slot) => slot.doctor_id === doctorId)
+    .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time))
+    .map((slot) => withAvailability(db, slot))
+  return json(200, slots)
+}
+
+function bookSlot(db: MockDatabase, request: MockRequest): MockResponse {
+  const slotId = parseId(request.params[0])
+  const idempotencyKey = request.headers.get('Idempotency-Key')
+
+  // Replayed request - hand back the booking the first attempt created
+  if (idempotencyKey && db.idempotencyKeys[idempotencyKey] !== undefined) {
+    const existing = db.bookings.find((booking) => booking.id === db.idempotencyKeys[idempotencyKey])
+    if (existing) return json(200, existing)
+  }
+
+  const slot = db.slots.find((candidate) => candidate.id === slotId)
+  if (!slot) {
+    return notFound('Slot not found')
+  }
+
+  const problems: FieldProblem[] = []
+  const patientName =
+    typeof request.body.patient_name === 'string' ? request.body.patient_name.trim() : ''
+  if (!patientName) {
+    problems.push({ field: 'patient_name', message: 'Patient name is required' })
+  }
+  const patientEmail =
+    typeof request.body.patient_email === 'string' && request.body.patient_email.trim()
+      ? request.body.patient_email.trim()
+      : undefined
+  if (patientEmail && !isEmail(patientEmail)) {
+    problems.push({ field: 'patient_email', message: 'Please enter a valid email address' })
+  }
+  if (problems.length > 0) {
+    return validationFailed(problems)
+  }
+
+  if (findActiveBooking(db, slotId)) {
+    return json(409, { error: 'Slot already booked' })
+  }
+  if (Date.parse(slot.start_time) <= Date.now()) {
+    return json(409, { error: 'Slot is in the past' })
+  }
+
+  const now = new Date()
+  const booking: MockBooking = {
+    id: db.nextIds.booking++,
+    slot_id: slotId,
+    patient_name: patientName,
+    patient_email: patientEmail,
+    status: 'PENDING',
+    manage_token: crypto.randomUUID(),
+    expires_at: new Date(now.getTime() + BOOKING_EXPIRY_MS).toISOString(),
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  }
+  db.bookings.push(booking)
+  if (idempotencyKey) {
+    db.idempotencyKeys[idempotencyKey] = booking.id
+  }
+  return json(201, booking)
+}
+
+/**
+ * Booking joined with its slot and doctor, as GET /bookings/:id returns it
+ * The manage_token is left out - only the booking response hands it out.
+ */
+function bookingDetails(db: MockDatabase, booking: MockBooking) {
+  const slot = db.slots.find((candidate) => candidate.id === booking.slot_id)
+  const doctor = slot && db.doctors.find((candidate) => candidate.id === slot.doctor_id)
+  const details = { ...booking, slot: slot && withAvailability(db, slot), doctor }
+  delete details.manage_token
+  return details
+}
+
+function isActive(booking: MockBooking): boolean {
+  return booking.status === 'PENDING' || booking.status === 'CONFIRMED'
+}
+
+/**
+ * Booking named in the URL, if the request carries its manage_token
+ * A wrong token gets the same answer as an unknown ID - no probing for bookings.
+ */
+function findOwnedBooking(db: MockDatabase, request: MockRequest): MockBooking | undefined {
+  const token = request.headers.get('X-Manage-Token')
+  return db.bookings.find(
+    (candidate) =>
+      candidate.id === parseId(request.params[0]) && Boolean(token) && candidate.manage_token === token
+  )
+}
+
+function cancelBooking(db: MockDatabase, request: MockRequest): MockResponse {
+  const booking = findOwnedBooking(db, request)
+  if (!booking) {
+    return notFound('Booking not found')
+  }
+  if (!isActive(booking)) {
+    return json(400, { error: `A ${booking.status.toLowerCase()} booking cannot be cancelled` })
+  }
+  booking.status = 'CANCELLED'
+  booking.expires_at = null
+  booking.updated_at = new Date().toISOString()
+  return json(200, bookingDetails(db, booking))
+}
+
+function rescheduleBooking(db: MockDatabase, request: MockRequest): MockResponse {
+  const booking = findOwnedBooking(db, request)
+  if (!booking) {
+    return notFound('Booking not found')
+  }
+  if (!isActive(booking)) {
+    return json(400, { error: `A ${booking.status.toLowerCase()} booking cannot be rescheduled` })
+  }
+
+  const slotId = Number(request.body.slot_id)
+  const slot = db.slots.find((candidate) => candidate.id === slotId)
+  if (!slot) {
+    return validationFailed([{ field: 'slot_id', message: 'Slot not found' }])
+  }
+  const currentSlot = db.slots.find((candidate) => candidate.id === booking.slot_id)
+  if (currentSlot && currentSlot.doctor_id !== slot.doctor_id) {
+    return validationFailed([{ field: 'slot_id', message: 'Bookings can only move to a slot with the same doctor' }])
+  }
+  if (Date.parse(slot.start_time) <= Date.now()) {
+    return validationFailed([{ field: 'slot_id', message: 'That slot is in the past' }])
+  }
+  if (slot.id !== booking.slot_id && findActiveBooking(db, slot.id)) {
+    return json(409, { error: 'Slot already booked' })
+  }
+
+  // One step: the booking holds the new slot and the old one is free again
+  booking.slot_id = slot.id
+  booking.updated_at = new Date().toISOString()
+  return json(200, bookingDetails(db, booking))
+}
+
+function loginAdmin(db: MockDatabase, request: MockRequest): MockResponse {
+  const username = typeof request.body.username === 'string' ? request.body.username.trim() : ''
+  const password = typeof request.body.password === 'string' ? request.body.password : ''
+  const problems: FieldProblem[] = []
+  if (!username) problems.push({ field: 'username', message: 'Username is required' })
+  if (!password) problems.push({ field: 'password', message: 'Password is required' })
+  if (problems.length > 0) {
+    return validationFailed(problems)
+  }
+  if (username !== ADMIN_USERNAME || password !== ADMIN_PASSWORD) {
+    return json(401, { error: 'Invalid username or password' })
+  }
+
+  const token = `mock-${crypto.randomUUID()}`
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString()
+  db.sessions[token] = expiresAt
+  return json(200, { token, username, expires_at: expiresAt })
+}
+
+/**
+ * Check the bearer token of a protected admin request
+ * @returns An error response, or null when the token is valid
+ */
+function authorizeAdmin(db: MockDatabase, headers: Headers): MockResponse | null {
+  const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    return json(401, { error: 'Authentication required' })
+  }
+  const expiresAt = db.sessions[token]
+  if (!expiresAt || Date.parse(expiresAt) <= Date.now()) {
+    delete db.sessions[token]
+    return json(401, { error: 'Session expired, please sign in again' })
+  }
+  return null
+}
+
+const routes: Array<{
+  method: string
+  pattern: RegExp
+  handler: (db: MockDatabase, request: MockRequest) => MockResponse
+}> = [
+  // Health check
+  {
+    method: 'GET',
+    pattern: /\/health$/,
+    handler: () => json(200, { status: 'ok', timestamp: new Date().toISOString(), mock: true }),
+  },
+
+  // Admin endpoints (matched first - they share suffixes with the public ones)
+  {
+    method: 'POST',
+    pattern: /\/admin\/login$/,
+    handler: loginAdmin,
+  },
+  {
+    method: 'POST',
+    pattern: /\/admin\/doctors$/,
+    handler: (db, request) => createDoctor(db, request.body),
+  },
+  {
+    method: 'GET',
+    pattern: /\/admin\/doctors$/,
+    handler: (db) => json(200, db.doctors),
+  },
+  {
+    method: 'POST',
+    pattern: /\/admin\/slots$/,
+    handler: (db, request) => createSlot(db, request.body.doctor_id, request.body),
+  },
+  {
+    method: 'GET',
+    pattern: /\/admin\/doctors\/(\d+)\/slots$/,
+    handler: (db, request) => listDoctorSlots(db, parseId(request.params[0])),
+  },
+  {
+    method: 'GET',
+    pattern: /\/admin\/stats$/,
+    handler: (db) =>
+      json(200, {
+        totalDoctors: db.doctors.length,
+        totalSlots: db.slots.length,
+        totalBookings: db.bookings.length,
+        confirmedBookings: db.bookings.filter((booking) => booking.status === 'CONFIRMED').length,
+        pendingBookings: db.bookings.filter((booking) => booking.status === 'PENDING').length,
+        failedBookings: db.bookings.filter((booking) => booking.status === 'FAILED').length,
+        cancelledBookings: db.bookings.filter((booking) => booking.status === 'CANCELLED').length,
+      }),
+  },
+
+  // Public endpoints
+  {
+    method: 'GET',
+    pattern: /\/doctors$/,
+    handler: (db) => json(200, db.doctors),
+  },
+  {
+    method: 'POST',
+    pattern: /\/doctors$/,
+    handler: (db, request) => createDoctor(db, request.body),
+  },
+  {
+    method: 'GET',
+    pattern: /\/doctors\/(\d+)$/,
+    handler: (db, request) => {
+      const doctor = db.doctors.find((candidate) => candidate.id === parseId(request.params[0]))
+      return doctor ? json(200, doctor) : notFound('Doctor not found')
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /\/doctors\/(\d+)\/slots$/,
+    handler: (db, request) => listDoctorSlots(db, parseId(request.params[0])),
+  },
+  {
+    method: 'POST',
+    pattern: /\/doctors\/(\d+)\/slots$/,
+    handler: (db, request) => createSlot(db, parseId(request.params[0]), request.body),
+  },
+  {
+    method: 'GET',
+    pattern: /\/slots\/(\d+)$/,
+    handler: (db, request) => {
+      const slot = db.slots.find((candidate) => candidate.id === parseId(request.params[0]))
+      if (!slot) return notFound('Slot not found')
+      return json(200, withAvailability(db, slot))
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /\/slots\/(\d+)\/book$/,
+    handler: bookSlot,
+  },
+  {
+    method: 'GET',
+    pattern: /\/bookings\/(\d+)$/,
+    handler: (db, request) => {
+      // Readable by ID alone; a manage_token, when sent, still has to match
+      const token = request.headers.get('X-Manage-Token')
+      const booking = token
+        ? findOwnedBooking(db, request)
+        : db.bookings.find((candidate) => candidate.id === parseId(request.params[0]))
+      return booking ? json(200, bookingDetails(db, booking)) : notFound('Booking not found')
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /\/bookings\/(\d+)\/cancel$/,
+    handler: cancelBooking,
+  },
+  {
+    method: 'POST',
+    pattern: /\/bookings\/(\d+)\/reschedule$/,
+    handler: rescheduleBooking,
+  },
+]
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function parseRequestBody(body: RequestInit['body']): Record<string, unknown> {
+  if (typeof body !== 'string' || !body) return {}
+  try {
+    const parsed: unknown = JSON.parse(body)
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * fetch-compatible entry point used by fetchApi when the mock is enabled
+ * @param url - Absolute request URL (only the path suffix is routed)
+ * @param init - The RequestInit fetchApi would have passed to fetch
+ */
+export async function mockFetch(url: string, init?: RequestInit): Promise<Response> {
+  await wait(LATENCY_MS, init?.signal)
+
+  const method = (init?.method ?? 'GET').toUpperCase()
+  const pathname = new URL(url, window.location.origin).pathname.replace(/\/+$/, '')
+  const db = getDatabase()
+  sweepBookings(db, Date.now())
+
+  let result: MockResponse = notFound(`Cannot ${method} ${pathname}`)
+  for (const route of routes) {
+    const match = route.method === method ? route.pattern.exec(pathname) : null
+    if (match) {
+      const headers = new Headers(init?.headers)
+      const isProtected = /\/admin\//.test(pathname) && !/\/admin\/login$/.test(pathname)
+      result =
+        (isProtected ? authorizeAdmin(db, headers) : null) ??
+        route.handler(db, {
+          method,
+          params: match.slice(1),
+          body: parseRequestBody(init?.body),
+          headers,
+        })
+      break
+    }
+  }
+
+  // Persist even for GETs - the sweep may have confirmed or expired bookings
+  saveDatabase()
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,177 @@
+// src/api/mock/mockDb.ts
+/**
+ * mockDb - In-browser stand-in for the MedReserve PostgreSQL database
+ * Tables mirror SYSTEM_DESIGN.md (doctors, slots, bookings). State lives in
+ * memory and is persisted to localStorage so it survives page reloads.
+ */
+
+import type { Doctor, DoctorInput, AppointmentSlot, Booking } from '../../types'
+import { zonedDateTimeToIso } from '../../utils/datetime'
+
+const STORAGE_KEY = 'medreserve-mock-db'
+
+/**
+ * Booking row as stored by the mock - expires_at is always present in the table
+ */
+export interface MockBooking extends Booking {
+  expires_at: string | null
+}
+
+/**
+ * Slot row as stored by the mock - availability is derived from bookings when served
+ */
+export type MockSlot = Omit<AppointmentSlot, 'availability'>
+
+export interface MockDatabase {
+  doctors: Doctor[]
+  slots: MockSlot[]
+  bookings: MockBooking[]
+  /** Idempotency-Key header -> booking id */
+  idempotencyKeys: Record<string, number>
+  /** Admin bearer token -> expiry (ISO) */
+  sessions: Record<string, string>
+  nextIds: { doctor: number; slot: number; booking: number }
+}
+
+const SEED_DOCTORS: DoctorInput[] = [
+  {
+    name: 'Dr. Sarah Chen',
+    specialization: 'Cardiology',
+    bio: 'Focuses on preventive cardiology and heart rhythm disorders, with fifteen years of hospital and outpatient practice.',
+    qualifications: ['MBBS', 'MD (Internal Medicine)', 'DM (Cardiology)'],
+    languages: ['English', 'Mandarin'],
+    clinic_location: 'Heart Centre, Building A, 2nd floor',
+  },
+  {
+    name: 'Dr. Michael Patel',
+    specialization: 'Neurology',
+    bio: 'Treats migraine, epilepsy and sleep disorders, and runs the weekly headache clinic.',
+    qualifications: ['MBBS', 'MD (Medicine)', 'DM (Neurology)'],
+    languages: ['English', 'Hindi', 'Gujarati'],
+    clinic_location: 'Neuroscience Wing, Building B, 3rd floor',
+  },
+  {
+    name: 'Dr. Emily Rodriguez',
+    specialization: 'Pediatrics',
+    bio: 'Cares for children from newborns to teenagers, including vaccinations, growth checks and childhood asthma.',
+    qualifications: ['MBBS', 'MD (Pediatrics)'],
+    languages: ['English', 'Spanish'],
+    clinic_location: "Children's Clinic, Building A, ground floor",
+  },
+  {
+    name: 'Dr. James Wilson',
+    specialization: 'Orthopedics',
+    bio: 'Specialises in sports injuries and joint pain, from first assessment through rehabilitation.',
+    qualifications: ['MBBS', 'MS (Orthopedics)'],
+    languages: ['English'],
+    clinic_location: 'Bone & Joint Centre, Building C, 1st floor',
+  },
+  {
+    name: 'Dr. Aisha Khan',
+    specialization: 'Ophthalmology',
+    bio: 'Provides eye examinations, cataract assessment and diabetic eye screening.',
+    qualifications: ['MBBS', 'MS (Ophthalmology)'],
+    languages: ['English', 'Urdu', 'Hindi'],
+    clinic_location: 'Eye Clinic, Building B, ground floor',
+  },
+  {
+    name: 'Dr. Robert Smith',
+    specialization: 'General Practice',
+    bio: 'Family doctor for everyday health concerns, check-ups and long-term conditions.',
+    qualifications: ['MBBS', 'MRCGP'],
+    languages: ['English', 'French'],
+    clinic_location: 'General Practice, Building A, 1st floor',
+  },
+]
+
+/**
+ * Build a fresh database: seed doctors with 30-minute morning slots
+ * (from 9:00 clinic time) on the next five weekdays
+ */
+function createSeedDatabase(): MockDatabase {
+  const now = new Date()
+  const createdAt = now.toISOString()
+  const doctors: Doctor[] = SEED_DOCTORS.map((doctor, index) => ({
+    id: index + 1,
+    ...doctor,
+    created_at: createdAt,
+  }))
+
+  const slots: MockSlot[] = []
+  const day = new Date(now)
+  day.setHours(0, 0, 0, 0)
+  let weekdays = 0
+  while (weekdays < 5) {
+    day.setDate(day.getDate() + 1)
+    if (day.getDay() === 0 || day.getDay() === 6) continue
+    weekdays += 1
+    for (const doctor of doctors) {
+      const date = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`
+      for (let slotIndex = 0; slotIndex < 6; slotIndex += 1) {
+        const minutes = 9 * 60 + slotIndex * 30
+        const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+        slots.push({
+          id: slots.length + 1,
+          doctor_id: doctor.id,
+          start_time: zonedDateTimeToIso(`${date}T${time}`),
+          duration_minutes: 30,
+          created_at: createdAt,
+        })
+      }
+    }
+  }
+
+  return {
+    doctors,
+    slots,
+    bookings: [],
+    idempotencyKeys: {},
+    sessions: {},
+    nextIds: { doctor: doctors.length + 1, slot: slots.length + 1, booking: 1 },
+  }
+}
+
+function loadDatabase(): MockDatabase {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      // Tables added after a database was stored start out empty
+      return { sessions: {}, ...(JSON.parse(stored) as Partial<MockDatabase>) } as MockDatabase
+    }
+  } catch (error) {
+    console.warn('Mock API: could not read stored database, reseeding', error)
+  }
+  return createSeedDatabase()
+}
+
+let database: MockDatabase | null = null
+
+/**
+ * Get the current mock database, loading or seeding it on first use
+ */
+export function getDatabase(): MockDatabase {
+  if (!database) {
+    database = loadDatabase()
+  }
+  return database
+}
+
+/**
+ * Persist the current state to localStorage
+ */
+export function saveDatabase(): void {
+  if (!database) return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(database))
+  } catch (error) {
+    console.warn('Mock API: could not persist database', error)
+  }
+}
+
+/**
+ * Drop all mock data and start again from the seed
+ */
+export function resetDatabase(): void {
+  database = createSeedDatabase()
+  saveDatabase()
+}
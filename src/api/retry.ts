@@ -0,0 +1,87 @@
+// src/api/retry.ts
+/**
+ * Retry with exponential backoff for transient API failures
+ * Only network failures and 5xx / 408 / 429 responses are retried;
+ * validation errors, 404s and slot conflicts fail immediately.
+ */
+
+import { ApiError, NetworkError, ServerError, createAbortError, isAbortError } from './errors'
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries: number
+  /** Delay before the first retry, doubled on each further retry */
+  baseDelayMs: number
+  /** Upper bound for a single delay */
+  maxDelayMs: number
+  /** Called before waiting for the next attempt (attempt is 1-based) */
+  onRetry?: (attempt: number, error: unknown) => void
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+}
+
+/**
+ * True for failures that may succeed when the same request is sent again
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof ServerError) return true
+  return error instanceof ApiError && (error.status === 408 || error.status === 429)
+}
+
+/**
+ * Delay before the given retry: base * 2^(attempt - 1), capped, with jitter
+ * so clients that failed together do not retry in lockstep
+ */
+export function getBackoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(exponential * (0.5 + Math.random() * 0.5))
+}
+
+/**
+ * Wait for ms milliseconds, rejecting early with an AbortError if the signal fires
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff
+ * @param operation - The request to perform; called once per attempt
+ * @param options - Retry limits and the onRetry callback
+ * @param signal - Cancels both the pending attempt and any backoff wait
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  signal?: AbortSignal | null
+): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (isAbortError(error) || attempt > options.retries || !isRetryableError(error)) {
+        throw error
+      }
+      options.onRetry?.(attempt, error)
+      await sleep(getBackoffDelay(attempt, options), signal)
+    }
+  }
+}
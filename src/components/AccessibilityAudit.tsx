@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react'
+import { useLocation } from 'react-router-dom'
+import { Accessibility, RefreshCw, X } from 'lucide-react'
+import { AUDIT_RULE_LABELS, auditAccessibility } from '../utils/contrastCheck'
+import type { AuditFinding, AuditRule } from '../utils/contrastCheck'
+
+// Let the new page load its data and finish its enter animations first
+const AUDIT_DELAY_MS = 1500
+
+const RULE_COLORS: Record<AuditRule, string> = {
+  contrast: 'border-orange-500',
+  'missing-alt': 'border-red-500',
+  'unlabeled-button': 'border-purple-500',
+  'clickable-non-interactive': 'border-blue-500',
+}
+
+/**
+ * AccessibilityAudit - Development-only accessibility overlay
+ *
+ * Audits the page with auditAccessibility() after every route change (and on
+ * demand). A floating button shows the number of findings and toggles a panel
+ * listing them; while the panel is open each offending element is outlined on
+ * the page, and choosing a finding scrolls to it.
+ */
+export default function AccessibilityAudit() {
+  const location = useLocation()
+  const [findings, setFindings] = useState<AuditFinding[]>([])
+  const [isOpen, setIsOpen] = useState<boolean>(false)
+  const [auditCount, setAuditCount] = useState<number>(0)
+  const [focused, setFocused] = useState<AuditFinding | null>(null)
+  // Bumped on scroll/resize so the outlines follow their elements
+  const [, setLayoutVersion] = useState<number>(0)
+
+  // Audit after each route change, and when asked to re-run
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFindings(auditAccessibility())
+      setFocused(null)
+    }, AUDIT_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [location.pathname, location.search, auditCount])
+
+  // Reposition the outlines while they are shown
+  useEffect(() => {
+    if (!isOpen) return
+    let frame = 0
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0
+          setLayoutVersion((version) => version + 1)
+        })
+      }
+    }
+    window.addEventListener('scroll', schedule, { passive: true })
+    window.addEventListener('resize', schedule)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', schedule)
+      window.removeEventListener('resize', schedule)
+    }
+  }, [isOpen])
+
+  // Elements can unmount after the audit (e.g. a closed dialog)
+  const current = findings.filter((finding) => finding.element.isConnected)
+  const rules = (Object.keys(AUDIT_RULE_LABELS) as AuditRule[]).filter((rule) =>
+    current.some((finding) => finding.rule === rule)
+  )
+
+  const showFinding = (finding: AuditFinding) => {
+    setFocused(finding)
+    finding.element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
+  return (
+    <div data-a11y-audit="">
+      {/* Outlines around offending elements */}
+      {isOpen &&
+        current.map((finding, index) => {
+          const rect = finding.element.getBoundingClientRect()
+          return (
+            <div
+              key={index}
+              aria-hidden="true"
+              className={`fixed z-[60] pointer-events-none border-2 border-dashed rounded ${RULE_COLORS[finding.rule]} ${
+                finding === focused ? 'bg-yellow-200/40' : ''
+              }`}
+              style={{ top: rect.top - 2, left: rect.left - 2, width: rect.width + 4, height: rect.height + 4 }}
+            />
+          )
+        })}
+
+      {/* Panel */}
+      {isOpen && (
+        <section
+          aria-label="Accessibility audit"
+          className="fixed bottom-20 left-4 z-[70] w-96 max-w-[calc(100vw-2rem)] max-h-[60vh] flex flex-col bg-white rounded-xl shadow-2xl border border-slate-200 text-sm"
+        >
+          <header className="flex items-center justify-between gap-2 px-4 py-3 border-b border-slate-200">
+            <h2 className="font-semibold text-slate-900">
+              Accessibility audit <span className="text-slate-600 font-normal">({current.length})</span>
+            </h2>
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => setAuditCount((count) => count + 1)}
+                className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100"
+                aria-label="Run the audit again"
+              >
+                <RefreshCw className="w-4 h-4" aria-hidden="true" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsOpen(false)}
+                className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100"
+                aria-label="Close the audit panel"
+              >
+                <X className="w-4 h-4" aria-hidden="true" />
+              </button>
+            </div>
+          </header>
+          <div className="overflow-y-auto px-4 py-3 space-y-4">
+            {current.length === 0 && <p className="text-slate-600">No problems found on this page.</p>}
+            {rules.map((rule) => (
+              <div key={rule}>
+                <h3 className="flex items-center gap-2 font-semibold text-slate-800 mb-1">
+                  <span className={`inline-block w-3 h-3 rounded-sm border-2 border-dashed ${RULE_COLORS[rule]}`} aria-hidden="true" />
+                  {AUDIT_RULE_LABELS[rule]}
+                </h3>
+                <ul className="space-y-1">
+                  {current
+                    .filter((finding) => finding.rule === rule)
+                    .map((finding, index) => (
+                      <li key={index}>
+                        <button
+                          type="button"
+                          onClick={() => showFinding(finding)}
+                          className={`w-full text-left rounded-md px-2 py-1.5 hover:bg-slate-100 ${
+                            finding === focused ? 'bg-yellow-100' : ''
+                          }`}
+                        >
+                          <span className="block font-mono text-xs text-slate-800 truncate">
+                            {describeElement(finding.element)}
+                          </span>
+                          <span className="block text-xs text-slate-600">{finding.message}</span>
+                        </button>
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Toggle */}
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className={`fixed bottom-4 left-4 z-[70] flex items-center gap-2 rounded-full px-4 py-2 text-sm font-semibold shadow-lg ${
+          current.length > 0 ? 'bg-orange-700 text-white' : 'bg-green-700 text-white'
+        }`}
+      >
+        <Accessibility className="w-4 h-4" aria-hidden="true" />
+        A11y {current.length}
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Short CSS-like description of an element, e.g. button.rounded-lg "Close"
+ */
+function describeElement(element: Element): string {
+  const className = typeof element.className === 'string' ? element.className.trim().split(/\s+/)[0] : ''
+  const text = element.textContent?.trim().slice(0, 30)
+  return `${element.tagName.toLowerCase()}${className ? `.${className}` : ''}${text ? ` "${text}"` : ''}`
+}
@@ -0,0 +1,31 @@
+import { CheckCircle2, XCircle, AlertCircle, Ban } from 'lucide-react'
+import type { BookingStatus } from '../types'
+import { BOOKING_STATUS_STYLES } from '../utils/bookingStatus'
+import { useTranslation } from '../hooks/useTranslation'
+
+interface BookingStatusBadgeProps {
+  status: BookingStatus
+}
+
+const STATUS_ICONS: Record<BookingStatus, typeof CheckCircle2> = {
+  CONFIRMED: CheckCircle2,
+  PENDING: AlertCircle,
+  FAILED: XCircle,
+  CANCELLED: Ban,
+}
+
+/**
+ * BookingStatusBadge - Pill showing a booking's status with a matching icon
+ */
+export default function BookingStatusBadge({ status }: BookingStatusBadgeProps) {
+  const { t } = useTranslation()
+  const { badge } = BOOKING_STATUS_STYLES[status]
+  const Icon = STATUS_ICONS[status]
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold ${badge}`}>
+      <Icon className="w-3.5 h-3.5" aria-hidden="true" />
+      {t(`bookingStatus.label.${status}`)}
+    </span>
+  )
+}
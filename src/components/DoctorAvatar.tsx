@@ -0,0 +1,55 @@
+import { useState } from 'react'
+import type { Doctor } from '../types'
+import { getAvatarColors, getInitials } from '../utils/avatar'
+
+interface DoctorAvatarProps {
+  doctor: Pick<Doctor, 'name' | 'specialization' | 'photo_url'>
+  /** Size, border and ring classes for the round frame */
+  className?: string
+  /** Color generated avatars by specialization instead of by name */
+  colorBySpecialization?: boolean
+}
+
+/**
+ * DoctorAvatar - Doctor's photo, or a generated initials avatar
+ * Falls back to the initials when there is no photo or it fails to load, so
+ * avatars never depend on a third-party image service.
+ */
+export default function DoctorAvatar({ doctor, className = 'w-12 h-12', colorBySpecialization = false }: DoctorAvatarProps) {
+  // Remember which photo failed, so a new photo URL gets a fresh attempt
+  const [failedPhoto, setFailedPhoto] = useState<string | null>(null)
+  const showPhoto = Boolean(doctor.photo_url) && doctor.photo_url !== failedPhoto
+  const { background, foreground } = getAvatarColors(
+    doctor.name,
+    colorBySpecialization ? doctor.specialization : undefined
+  )
+
+  return (
+    <div className={`flex-shrink-0 rounded-full overflow-hidden ${className}`}>
+      {showPhoto ? (
+        <img
+          src={doctor.photo_url}
+          alt={doctor.name}
+          onError={() => setFailedPhoto(doctor.photo_url ?? null)}
+          className="w-full h-full object-cover"
+        />
+      ) : (
+        <svg viewBox="0 0 64 64" role="img" aria-label={doctor.name} className="w-full h-full block">
+          <rect width="64" height="64" fill={background} />
+          <text
+            x="32"
+            y="32"
+            dy="0.35em"
+            textAnchor="middle"
+            fill={foreground}
+            fontSize="24"
+            fontWeight="600"
+            fontFamily="inherit"
+          >
+            {getInitials(doctor.name)}
+          </text>
+        </svg>
+      )}
+    </div>
+  )
+}
@@ -1,62 +1,71 @@
+import { useId } from 'react'
 import { motion } from 'framer-motion'
-import { Stethoscope, Heart, Brain, Eye, Baby, Activity } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { Stethoscope, ChevronRight } from 'lucide-react'
 import type { Doctor } from '../types'
+import type { DoctorHighlights } from '../utils/doctorSearch'
+import HighlightedText from './HighlightedText'
+import SpecializationBadge from './SpecializationBadge'
+import DoctorAvatar from './DoctorAvatar'
+import { useWindowVirtualizer } from '../hooks/useWindowVirtualizer'
+import { useListboxNavigation } from '../hooks/useListboxNavigation'
+import { useTranslation } from '../hooks/useTranslation'
+import { getSpecializationStyle } from '../utils/specializations'
 
 /**
  * DoctorList - Component to display a vertical list of doctors
- * Allows users to select a doctor to view their available slots
+ * Allows users to select a doctor to view their available slots,
+ * and links each card to the doctor's profile page.
+ * Only the cards near the viewport are rendered, so long lists stay smooth.
+ * The cards form a listbox: arrow keys, Home and End move between doctors and
+ * Enter or Space selects one.
  * 
  * @param doctors - Array of doctor objects to display
+ * @param highlights - Search matches to mark in each card, by doctor ID (optional)
  * @param selectedDoctorId - ID of the currently selected doctor (optional)
  * @param onSelectDoctor - Callback function when a doctor is selected
  * @param searchQuery - Current search query for filtering
  */
 interface DoctorListProps {
   doctors: Doctor[]
+  highlights?: Map<number, DoctorHighlights>
   selectedDoctorId?: number
   onSelectDoctor: (doctorId: number) => void
   searchQuery?: string
 }
 
-/**
- * Get specialization icon based on specialization name
- */
-function getSpecializationIcon(specialization?: string) {
-  if (!specialization) return Stethoscope
-  const spec = specialization.toLowerCase()
-  if (spec.includes('cardio') || spec.includes('heart')) return Heart
-  if (spec.includes('neuro') || spec.includes('brain')) return Brain
-  if (spec.includes('eye') || spec.includes('vision')) return Eye
-  if (spec.includes('pediatric') || spec.includes('child')) return Baby
-  if (spec.includes('sport') || spec.includes('ortho')) return Activity
-  return Stethoscope
-}
-
-/**
- * Get specialization badge color based on specialization
- */
-// Specialization badge colors - dark mode classes removed
-function getSpecializationColor(specialization?: string): string {
-  if (!specialization) return 'bg-blue-100 text-blue-700'
-  const spec = specialization.toLowerCase()
-  if (spec.includes('cardio') || spec.includes('heart')) return 'bg-red-100 text-red-700'
-  if (spec.includes('neuro') || spec.includes('brain')) return 'bg-purple-100 text-purple-700'
-  if (spec.includes('eye') || spec.includes('vision')) return 'bg-cyan-100 text-cyan-700'
-  if (spec.includes('pediatric') || spec.includes('child')) return 'bg-pink-100 text-pink-700'
-  if (spec.includes('sport') || spec.includes('ortho')) return 'bg-green-100 text-green-700'
-  return 'bg-blue-100 text-blue-700'
-}
+// Card height plus the gap below it, before a card has been measured
+const ESTIMATED_CARD_HEIGHT = 140
+// Cards further down the viewport than this enter without extra delay
+const MAX_STAGGERED_CARDS = 8
 
 export default function DoctorList({
   doctors,
+  highlights,
   selectedDoctorId,
   onSelectDoctor,
   searchQuery = '',
 }: DoctorListProps) {
+  const { t } = useTranslation()
+  const headingId = useId()
+  const { containerRef, measureRow, indexes, firstVisible, scrollToIndex, paddingTop, paddingBottom } =
+    useWindowVirtualizer({
+      count: doctors.length,
+      estimateSize: ESTIMATED_CARD_HEIGHT,
+      getItemKey: (index) => doctors[index].id,
+    })
+  const { listboxProps, getOptionProps } = useListboxNavigation({
+    count: doctors.length,
+    initialIndex: Math.max(doctors.findIndex((doctor) => doctor.id === selectedDoctorId), 0),
+    rendered: indexes,
+    scrollToIndex,
+    onActivate: (index) => onSelectDoctor(doctors[index].id),
+  })
+
   return (
     <div className="space-y-4">
       {/* Section heading - dark mode classes removed */}
-      <h2 className="text-2xl font-bold text-slate-900 mb-4">Select a Doctor</h2>
+      <h2 id={headingId} className="text-2xl font-bold text-slate-900 mb-4">{t('doctors.heading')}</h2>
       
       {doctors.length === 0 ? (
         <motion.div
@@ -66,63 +75,87 @@ export default function DoctorList({
         >
           <Stethoscope className="w-12 h-12 text-slate-300 mx-auto mb-3" />
           <p className="text-slate-500 font-medium">
-            {searchQuery ? 'No doctors found matching your search' : 'No doctors available'}
+            {searchQuery ? t('doctors.noMatches') : t('doctors.empty')}
           </p>
         </motion.div>
       ) : (
-        <div className="space-y-3">
-          {doctors.map((doctor, index) => {
-            const isSelected = selectedDoctorId === doctor.id
-            const SpecIcon = getSpecializationIcon(doctor.specialization)
-            const avatarUrl = `https://api.dicebear.com/8.x/initials/svg?seed=${encodeURIComponent(doctor.name)}`
-            
-            return (
-              <motion.div
-                key={doctor.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-                whileHover={{ scale: 1.02, y: -2 }}
-                whileTap={{ scale: 0.98 }}
-                onClick={() => onSelectDoctor(doctor.id)}
-                className={`
-                  bg-white rounded-2xl border p-5 shadow-sm 
-                  cursor-pointer transition-all
-                  ${isSelected 
-                    ? 'border-2 border-brand-500 bg-gradient-to-br from-brand-50 to-white shadow-lg ring-2 ring-brand-100' 
-                    : 'border-slate-200 hover:border-brand-300 hover:shadow-md'
-                  }
-                `}
-              >
-                <div className="flex items-start gap-4">
-                  {/* Doctor Avatar with Dicebear - dark mode classes removed */}
-                  <div className={`
-                    flex-shrink-0 w-16 h-16 rounded-full overflow-hidden
-                    border-2 ${isSelected ? 'border-brand-500 ring-2 ring-brand-100 ring-offset-2' : 'border-slate-200'}
-                    transition-all shadow-md
-                  `}>
-                    <img
-                      src={avatarUrl}
-                      alt={doctor.name}
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    {/* Doctor name - dark mode classes removed */}
-                    <h3 className="text-lg font-bold text-slate-900 mb-2">
-                      {doctor.name}
-                    </h3>
-                    {doctor.specialization && (
-                      <span className={`inline-flex items-center gap-1.5 ${getSpecializationColor(doctor.specialization)} px-3 py-1 rounded-full text-xs font-medium`}>
-                        <SpecIcon className="w-3.5 h-3.5" />
-                        {doctor.specialization}
-                      </span>
-                    )}
-                  </div>
+        <div role="listbox" aria-labelledby={headingId} {...listboxProps}>
+          <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+            {indexes.map((index) => {
+              const doctor = doctors[index]
+              const isSelected = selectedDoctorId === doctor.id
+              const match = highlights?.get(doctor.id)
+              
+              // Stagger from the top of the viewport, not from the top of the list
+              const stagger = Math.min(Math.max(index - firstVisible, 0), MAX_STAGGERED_CARDS)
+
+              return (
+                <div key={doctor.id} ref={measureRow} data-index={index} className="pb-3">
+                  <motion.div
+                    role="option"
+                    aria-selected={isSelected}
+                    aria-label={
+                      doctor.specialization
+                        ? `${doctor.name}, ${getSpecializationStyle(doctor.specialization).name}`
+                        : doctor.name
+                    }
+                    // Only part of the list is rendered, so give the position explicitly
+                    aria-posinset={index + 1}
+                    aria-setsize={doctors.length}
+                    {...getOptionProps(index)}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: stagger * 0.05 }}
+                    whileHover={{ scale: 1.02, y: -2 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={() => onSelectDoctor(doctor.id)}
+                    className={`
+                      bg-white rounded-2xl border p-5 shadow-sm 
+                      cursor-pointer transition-all
+                      focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-500 focus-visible:ring-offset-2
+                      ${isSelected 
+                        ? 'border-2 border-brand-500 bg-gradient-to-br from-brand-50 to-white shadow-lg ring-2 ring-brand-100' 
+                        : 'border-slate-200 hover:border-brand-300 hover:shadow-md'
+                      }
+                    `}
+                  >
+                    <div className="flex items-start gap-4">
+                      {/* Doctor avatar - photo or generated initials */}
+                      <DoctorAvatar
+                        doctor={doctor}
+                        className={`w-16 h-16 border-2 ${isSelected ? 'border-brand-500 ring-2 ring-brand-100 ring-offset-2' : 'border-slate-200'} transition-all shadow-md`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        {/* Doctor name - dark mode classes removed */}
+                        <h3 className="text-lg font-bold text-slate-900 mb-2">
+                          <HighlightedText text={doctor.name} ranges={match?.name ?? []} />
+                        </h3>
+                        {doctor.specialization && (
+                          <SpecializationBadge
+                            specialization={doctor.specialization}
+                            highlights={match?.specialization}
+                          />
+                        )}
+                        {/* Profile link - does not select the card. Kept out of the tab order
+                            (options cannot contain controls); keyboard users get the link
+                            next to the selected doctor's slots instead */}
+                        <Link
+                          to={`/doctors/${doctor.id}`}
+                          onClick={(e) => e.stopPropagation()}
+                          tabIndex={-1}
+                          aria-hidden="true"
+                          className="mt-3 flex w-fit items-center gap-1 text-sm font-medium text-brand-700 hover:text-brand-800 hover:underline"
+                        >
+                          {t('doctors.viewProfile')}
+                          <ChevronRight className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+                        </Link>
+                      </div>
+                    </div>
+                  </motion.div>
                 </div>
-              </motion.div>
-            )
-          })}
+              )
+            })}
+          </div>
         </div>
       )}
     </div>
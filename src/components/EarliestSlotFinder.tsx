@@ -0,0 +1,276 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import { motion } from 'framer-motion'
+import { Search, Clock, Calendar } from 'lucide-react'
+import type { AppointmentSlot, Doctor } from '../types'
+import { useAppContext } from '../context/AppContext'
+import { useTranslation } from '../hooks/useTranslation'
+import { formatDate, formatDuration, formatTime, getClinicDayKey, getZonedParts } from '../utils/datetime'
+import { isSlotBookable } from '../utils/slotAvailability'
+import { canonicalSpecialization, getSpecializationStyle } from '../utils/specializations'
+import LocalTimeHint from './LocalTimeHint'
+import { SlotListSkeleton } from './LoadingSkeleton'
+
+type TimeOfDay = 'any' | 'morning' | 'afternoon' | 'evening'
+
+interface EarliestSlotFinderProps {
+  doctors: Doctor[]
+  specializations: string[]
+  onBook: (slot: AppointmentSlot) => void
+}
+
+interface SearchCriteria {
+  specialization: string
+  fromDate: string
+  toDate: string
+  timeOfDay: TimeOfDay
+  /** Slots starting before this instant are ignored */
+  searchedAt: number
+}
+
+/**
+ * Clinic-time hour ranges for the time-of-day filter [start, end)
+ */
+const TIME_OF_DAY_HOURS: Record<Exclude<TimeOfDay, 'any'>, [number, number]> = {
+  morning: [0, 12],
+  afternoon: [12, 17],
+  evening: [17, 24],
+}
+
+// How many openings to list
+const MAX_RESULTS = 10
+
+// How many doctors' slot lists to fetch at once
+const MAX_CONCURRENT_LOADS = 4
+
+/**
+ * True when a slot falls inside the date and time-of-day window (clinic time)
+ */
+function matchesWindow(slot: AppointmentSlot, criteria: SearchCriteria): boolean {
+  if (!isSlotBookable(slot, criteria.searchedAt)) return false
+  const day = getClinicDayKey(slot.start_time)
+  if (criteria.fromDate && day < criteria.fromDate) return false
+  if (criteria.toDate && day > criteria.toDate) return false
+  if (criteria.timeOfDay !== 'any') {
+    const [start, end] = TIME_OF_DAY_HOURS[criteria.timeOfDay]
+    const { hour } = getZonedParts(slot.start_time)
+    if (hour < start || hour >= end) return false
+  }
+  return true
+}
+
+/**
+ * EarliestSlotFinder - Finds the soonest openings across all matching doctors
+ * Loads each matching doctor's slots into the store (cached and deduplicated),
+ * then ranks every slot inside the chosen window by start time.
+ */
+export default function EarliestSlotFinder({ doctors, specializations, onBook }: EarliestSlotFinderProps) {
+  const { loadDoctorSlots, getSlotsForDoctor, getSlotsQuery } = useAppContext()
+  const { t } = useTranslation()
+
+  // Form state
+  const [specialization, setSpecialization] = useState<string>('')
+  const [fromDate, setFromDate] = useState<string>('')
+  const [toDate, setToDate] = useState<string>('')
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>('any')
+  const [criteria, setCriteria] = useState<SearchCriteria | null>(null)
+
+  const matchingDoctors = criteria
+    ? doctors.filter(
+        (doctor) =>
+          !criteria.specialization ||
+          (doctor.specialization &&
+            canonicalSpecialization(doctor.specialization, specializations) === criteria.specialization)
+      )
+    : []
+  const matchingIds = matchingDoctors.map((doctor) => doctor.id).join(',')
+
+  // Load slots for every matching doctor, a few at a time; a new search cancels
+  // the previous one and reloads whatever it left unfinished
+  useEffect(() => {
+    if (!matchingIds) return
+    const controller = new AbortController()
+    const queue = matchingIds.split(',').map(Number)
+    const loadNext = async () => {
+      for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+        if (controller.signal.aborted) return
+        await loadDoctorSlots(id, { signal: controller.signal })
+      }
+    }
+    const workers = Math.min(MAX_CONCURRENT_LOADS, queue.length)
+    for (let i = 0; i < workers; i++) {
+      void loadNext()
+    }
+    return () => controller.abort()
+  }, [matchingIds, loadDoctorSlots])
+
+  const queries = matchingDoctors.map((doctor) => getSlotsQuery(doctor.id))
+  const isLoading = queries.some((query) => query.updatedAt === null && query.status !== 'error')
+  const failedCount = queries.filter((query) => query.status === 'error').length
+
+  const results = criteria
+    ? matchingDoctors
+        .flatMap((doctor) =>
+          getSlotsForDoctor(doctor.id)
+            .filter((slot) => matchesWindow(slot, criteria))
+            .map((slot) => ({ slot, doctor }))
+        )
+        .sort((a, b) => Date.parse(a.slot.start_time) - Date.parse(b.slot.start_time))
+        .slice(0, MAX_RESULTS)
+    : []
+
+  /**
+   * Run the search with the current form values
+   */
+  const handleSearch = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setCriteria({ specialization, fromDate, toDate, timeOfDay, searchedAt: Date.now() })
+  }
+
+  const fieldClass =
+    'w-full rounded-lg border border-slate-200 bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 transition-colors'
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-slate-900 mb-4">{t('earliest.heading')}</h2>
+
+      {/* Search form */}
+      <form
+        onSubmit={handleSearch}
+        className="bg-white rounded-2xl shadow-md border border-slate-200 p-4 mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 lg:items-end"
+      >
+        <div className="lg:col-span-2">
+          <label htmlFor="finder-specialization" className="block text-sm font-medium text-slate-700 mb-1">
+            {t('earliest.specialization')}
+          </label>
+          <select
+            id="finder-specialization"
+            value={specialization}
+            onChange={(e) => setSpecialization(e.target.value)}
+            className={fieldClass}
+          >
+            <option value="">{t('earliest.anySpecialization')}</option>
+            {specializations.map((spec) => (
+              <option key={spec} value={spec}>
+                {spec}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="finder-from" className="block text-sm font-medium text-slate-700 mb-1">
+            {t('earliest.from')} <span className="text-slate-400 text-xs">{t('common.optional')}</span>
+          </label>
+          <input
+            type="date"
+            id="finder-from"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className={fieldClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="finder-to" className="block text-sm font-medium text-slate-700 mb-1">
+            {t('earliest.to')} <span className="text-slate-400 text-xs">{t('common.optional')}</span>
+          </label>
+          <input
+            type="date"
+            id="finder-to"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            className={fieldClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="finder-time" className="block text-sm font-medium text-slate-700 mb-1">
+            {t('earliest.timeOfDay')}
+          </label>
+          <select
+            id="finder-time"
+            value={timeOfDay}
+            onChange={(e) => setTimeOfDay(e.target.value as TimeOfDay)}
+            className={fieldClass}
+          >
+            <option value="any">{t('earliest.time.any')}</option>
+            <option value="morning">{t('earliest.time.morning')}</option>
+            <option value="afternoon">{t('earliest.time.afternoon')}</option>
+            <option value="evening">{t('earliest.time.evening')}</option>
+          </select>
+        </div>
+        <button
+          type="submit"
+          className="sm:col-span-2 lg:col-span-5 flex items-center justify-center gap-2 rounded-lg bg-brand-500 hover:bg-brand-600 text-white shadow-md px-4 py-2.5 text-sm font-medium transition-all hover:shadow-lg"
+        >
+          <Search className="w-4 h-4" aria-hidden="true" />
+          {t('earliest.submit')}
+        </button>
+      </form>
+
+      {/* Results */}
+      {!criteria ? (
+        <p className="text-center text-slate-500 italic text-sm py-4">
+          {t('earliest.prompt')}
+        </p>
+      ) : matchingDoctors.length === 0 ? (
+        <p className="text-center text-slate-500 italic text-sm py-4">{t('earliest.noDoctors')}</p>
+      ) : isLoading && results.length === 0 ? (
+        <SlotListSkeleton />
+      ) : (
+        <div aria-busy={isLoading}>
+          {failedCount > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-900 text-sm rounded-lg px-3 py-2 mb-3">
+              {t('earliest.partialResults', { count: failedCount })}
+            </div>
+          )}
+          {results.length === 0 ? (
+            <p className="text-center text-slate-500 italic text-sm py-4">
+              {t('earliest.noResults')}
+            </p>
+          ) : (
+            <ol className="space-y-3">
+              {results.map(({ slot, doctor }, index) => (
+                <motion.li
+                  key={slot.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.03 }}
+                  className="bg-white rounded-xl border border-slate-200 p-4 flex flex-col sm:flex-row sm:items-center gap-3 shadow-sm"
+                >
+                  <span className="w-8 h-8 rounded-full bg-brand-100 text-brand-700 text-sm font-bold flex items-center justify-center flex-shrink-0">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-slate-800">{doctor.name}</p>
+                    {doctor.specialization && (
+                      <p className="text-xs text-slate-500">{getSpecializationStyle(doctor.specialization).name}</p>
+                    )}
+                    <p className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-slate-700 mt-1">
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-4 h-4 text-brand-600" aria-hidden="true" />
+                        {formatDate(slot.start_time, 'short')}
+                      </span>
+                      <span className="flex items-center gap-1 font-semibold">
+                        <Clock className="w-4 h-4 text-brand-600" aria-hidden="true" />
+                        {formatTime(slot.start_time)}
+                      </span>
+                      <span className="text-slate-500">{formatDuration(slot.duration_minutes, 'short')}</span>
+                      <LocalTimeHint value={slot.start_time} />
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onBook(slot)}
+                    className="rounded-lg bg-brand-500 hover:bg-brand-600 text-white shadow-md px-4 py-2 text-sm font-medium transition-all"
+                  >
+                    {t('earliest.book')}
+                  </button>
+                </motion.li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import type { MatchRange } from '../utils/fuzzySearch'
+
+interface HighlightedTextProps {
+  text: string
+  /** Sorted, non-overlapping ranges to mark */
+  ranges: MatchRange[]
+}
+
+/**
+ * HighlightedText - Renders text with the matched ranges wrapped in <mark>
+ */
+export default function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  if (ranges.length === 0) {
+    return <>{text}</>
+  }
+
+  const parts = []
+  let cursor = 0
+  for (const [start, end] of ranges) {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start))
+    }
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  }
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor))
+  }
+  return <>{parts}</>
+}
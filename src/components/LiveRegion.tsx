@@ -0,0 +1,17 @@
+interface LiveRegionProps {
+  /** Text to announce - changing it announces the new text */
+  message: string
+}
+
+/**
+ * LiveRegion - Visually hidden aria-live region for screen-reader announcements
+ * Render it unconditionally: a region only announces changes made after it
+ * was mounted.
+ */
+export default function LiveRegion({ message }: LiveRegionProps) {
+  return (
+    <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+      {message}
+    </div>
+  )
+}
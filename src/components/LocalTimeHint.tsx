@@ -0,0 +1,18 @@
+import { formatLocalTimeHint } from '../utils/datetime'
+import { useTranslation } from '../hooks/useTranslation'
+
+interface LocalTimeHintProps {
+  value: string
+  className?: string
+}
+
+/**
+ * LocalTimeHint - The viewer's own time for a slot, shown only when their
+ * timezone differs from the clinic's
+ */
+export default function LocalTimeHint({ value, className = 'text-xs text-slate-500' }: LocalTimeHintProps) {
+  const { t } = useTranslation()
+  const hint = formatLocalTimeHint(value)
+  if (!hint) return null
+  return <span className={className}>{t('slots.localTime', { time: hint })}</span>
+}
@@ -0,0 +1,31 @@
+import { Languages } from 'lucide-react'
+import { LOCALES } from '../i18n'
+import type { Locale } from '../i18n'
+import { useTranslation } from '../hooks/useTranslation'
+
+/**
+ * LocaleSwitcher - Language picker for the navbar
+ * Each language is listed under its own name, so it can be found without
+ * reading the current one.
+ */
+export default function LocaleSwitcher() {
+  const { locale, setLocale, t } = useTranslation()
+
+  return (
+    <label className="relative flex items-center text-slate-600">
+      <span className="sr-only">{t('nav.language')}</span>
+      <Languages className="absolute start-2.5 w-4 h-4 pointer-events-none" aria-hidden="true" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="appearance-none cursor-pointer rounded-lg border border-slate-200 bg-white/70 hover:bg-white ps-8 pe-3 py-1.5 text-sm font-medium text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 transition-colors"
+      >
+        {(Object.keys(LOCALES) as Locale[]).map((code) => (
+          <option key={code} value={code} lang={LOCALES[code].intlLocale}>
+            {LOCALES[code].label}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
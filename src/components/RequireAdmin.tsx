@@ -0,0 +1,18 @@
+import { Navigate, useLocation } from 'react-router-dom'
+import type { ReactNode } from 'react'
+import { useAuth } from '../hooks/useAuth'
+
+/**
+ * RequireAdmin - Route guard for admin-only pages
+ * Sends signed-out visitors to /admin/login and remembers where they were going
+ */
+export default function RequireAdmin({ children }: { children: ReactNode }) {
+  const { isAuthenticated } = useAuth()
+  const location = useLocation()
+
+  if (!isAuthenticated) {
+    return <Navigate to="/admin/login" state={{ from: location }} replace />
+  }
+
+  return <>{children}</>
+}
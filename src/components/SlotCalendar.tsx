@@ -0,0 +1,223 @@
+import { useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import type { AppointmentSlot } from '../types'
+import SlotList from './SlotList'
+import { getClinicDayKey, getDisplayLocale } from '../utils/datetime'
+import { isSlotBookable } from '../utils/slotAvailability'
+import { useTranslation } from '../hooks/useTranslation'
+
+type CalendarMode = 'week' | 'month'
+
+interface SlotCalendarProps {
+  slots: AppointmentSlot[]
+  onBook: (slot: AppointmentSlot) => void
+}
+
+/**
+ * Grid cells are plain calendar dates (local Date objects used only for their
+ * year/month/day), keyed like getClinicDayKey so slots land on their clinic day
+ */
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function dateFromKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date)
+  day.setHours(0, 0, 0, 0)
+  return day
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+function startOfWeek(date: Date): Date {
+  const day = startOfDay(date)
+  return addDays(day, -day.getDay())
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1)
+}
+
+/**
+ * Short weekday names for the grid header, Sunday first, e.g. "Sun" or "dom"
+ */
+function weekdayLabels(locale: string): string[] {
+  const sunday = startOfWeek(new Date())
+  return Array.from({ length: 7 }, (_, index) =>
+    addDays(sunday, index).toLocaleDateString(locale, { weekday: 'short' })
+  )
+}
+
+/**
+ * SlotCalendar - Week / month calendar of a doctor's open slots
+ * Days with openings are highlighted; choosing a day lists its slots below.
+ */
+export default function SlotCalendar({ slots, onBook }: SlotCalendarProps) {
+  const { t } = useTranslation()
+  const [openedAt] = useState<number>(() => Date.now())
+  // Only slots that can still be booked are placed on the calendar
+  const openSlots = useMemo(() => slots.filter((slot) => isSlotBookable(slot, openedAt)), [slots, openedAt])
+
+  // Slots grouped by calendar day
+  const slotsByDay = useMemo(() => {
+    const groups = new Map<string, AppointmentSlot[]>()
+    for (const slot of openSlots) {
+      const key = getClinicDayKey(slot.start_time)
+      groups.set(key, [...(groups.get(key) ?? []), slot])
+    }
+    return groups
+  }, [openSlots])
+
+  const firstSlotDay = openSlots.length > 0 ? getClinicDayKey(openSlots[0].start_time) : null
+  const [mode, setMode] = useState<CalendarMode>('week')
+  // Start on the first day with an opening, or today at the clinic
+  const [anchor, setAnchor] = useState<Date>(() => dateFromKey(firstSlotDay ?? getClinicDayKey(new Date())))
+  const [selectedDay, setSelectedDay] = useState<string | null>(firstSlotDay)
+
+  // Days shown in the grid; null entries pad the month to whole weeks
+  const days: Array<Date | null> = useMemo(() => {
+    if (mode === 'week') {
+      const start = startOfWeek(anchor)
+      return Array.from({ length: 7 }, (_, index) => addDays(start, index))
+    }
+    const start = startOfMonth(anchor)
+    const daysInMonth = new Date(start.getFullYear(), start.getMonth() + 1, 0).getDate()
+    const padding: null[] = Array.from({ length: start.getDay() }, () => null)
+    return [...padding, ...Array.from({ length: daysInMonth }, (_, index) => addDays(start, index))]
+  }, [mode, anchor])
+
+  const locale = getDisplayLocale()
+  const weekStart = startOfWeek(anchor)
+  const rangeLabel =
+    mode === 'week'
+      ? new Intl.DateTimeFormat(locale, { month: 'short', day: 'numeric', year: 'numeric' }).formatRange(
+          weekStart,
+          addDays(weekStart, 6)
+        )
+      : anchor.toLocaleDateString(locale, { month: 'long', year: 'numeric' })
+
+  /**
+   * Move one week or month back or forward
+   */
+  const shift = (direction: -1 | 1) => {
+    setAnchor((current) =>
+      mode === 'week'
+        ? addDays(startOfWeek(current), direction * 7)
+        : new Date(current.getFullYear(), current.getMonth() + direction, 1)
+    )
+  }
+
+  const selectedSlots = selectedDay ? slotsByDay.get(selectedDay) ?? [] : []
+
+  // No openings - the list explains why and can reveal the unavailable slots
+  if (openSlots.length === 0) {
+    return <SlotList slots={slots} onBook={onBook} />
+  }
+
+  return (
+    <div>
+      {/* Header: range, navigation and week/month switch */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => shift(-1)}
+            className="p-2 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+            aria-label={mode === 'week' ? t('calendar.previousWeek') : t('calendar.previousMonth')}
+          >
+            <ChevronLeft className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+          </button>
+          <h2 className="text-lg font-bold text-slate-900 min-w-[12rem] text-center">{rangeLabel}</h2>
+          <button
+            type="button"
+            onClick={() => shift(1)}
+            className="p-2 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+            aria-label={mode === 'week' ? t('calendar.nextWeek') : t('calendar.nextMonth')}
+          >
+            <ChevronRight className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+          </button>
+        </div>
+        <div className="inline-flex rounded-lg border border-slate-200 bg-white p-0.5" role="group" aria-label={t('calendar.rangeLabel')}>
+          {(['week', 'month'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              aria-pressed={mode === option}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                mode === option ? 'bg-brand-500 text-white' : 'text-slate-600 hover:bg-slate-50'
+              }`}
+            >
+              {option === 'week' ? t('calendar.week') : t('calendar.month')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Calendar grid */}
+      <div className="grid grid-cols-7 gap-1.5 mb-6">
+        {weekdayLabels(locale).map((label) => (
+          <div key={label} className="text-center text-xs font-semibold text-slate-500 py-1">
+            {label}
+          </div>
+        ))}
+        {days.map((day, index) => {
+          if (!day) {
+            return <div key={`pad-${index}`} aria-hidden="true"></div>
+          }
+          const key = dayKey(day)
+          const count = slotsByDay.get(key)?.length ?? 0
+          const isSelected = key === selectedDay
+          return (
+            <motion.button
+              key={key}
+              type="button"
+              onClick={() => setSelectedDay(key)}
+              disabled={count === 0}
+              whileHover={{ scale: count > 0 ? 1.04 : 1 }}
+              aria-pressed={isSelected}
+              aria-label={`${day.toLocaleDateString(locale, { weekday: 'long', month: 'long', day: 'numeric' })}, ${
+                count === 0 ? t('calendar.noOpenings') : t('calendar.openSlots', { count })
+              }`}
+              className={`rounded-xl border text-center transition-colors ${mode === 'week' ? 'py-3' : 'py-2'} ${
+                isSelected
+                  ? 'bg-brand-500 border-brand-500 text-white shadow-md'
+                  : count > 0
+                  ? 'bg-brand-50 border-brand-200 text-slate-900 hover:bg-brand-100'
+                  : 'bg-white border-slate-100 text-slate-400 cursor-not-allowed'
+              }`}
+            >
+              <span className="block text-sm font-semibold">{day.toLocaleDateString(locale, { day: 'numeric' })}</span>
+              {count > 0 && (
+                <span className={`block text-[11px] ${isSelected ? 'text-white' : 'text-brand-700'}`}>
+                  {t('calendar.openCount', { count })}
+                </span>
+              )}
+            </motion.button>
+          )
+        })}
+      </div>
+
+      {/* Slots for the chosen day */}
+      {selectedDay ? (
+        <SlotList slots={selectedSlots} onBook={onBook} />
+      ) : (
+        <p className="text-center text-slate-500 italic text-sm py-4">
+          {t('calendar.choosePrompt')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,17 +1,94 @@
+import { useId, useState } from 'react'
 import { motion } from 'framer-motion'
-import { Clock, CheckCircle2, Calendar } from 'lucide-react'
-import type { AppointmentSlot } from '../types'
+import { Clock, CheckCircle2, Calendar, Hourglass, Lock, History } from 'lucide-react'
+import type { AppointmentSlot, SlotAvailability } from '../types'
+import { formatDate, formatDuration, formatTime, getTimeZoneName } from '../utils/datetime'
+import { SLOT_AVAILABILITY_STYLES, getSlotAvailability } from '../utils/slotAvailability'
+import LocalTimeHint from './LocalTimeHint'
+import { useMediaQuery } from '../hooks/useMediaQuery'
+import { useWindowVirtualizer } from '../hooks/useWindowVirtualizer'
+import { useListboxNavigation } from '../hooks/useListboxNavigation'
+import { useTranslation } from '../hooks/useTranslation'
 
 interface SlotListProps {
   slots: AppointmentSlot[]
   onBook: (slot: AppointmentSlot) => void
+  /** Button text, e.g. "Move here" when rescheduling */
+  actionLabel?: string
 }
 
+type UnavailableState = Exclude<SlotAvailability, 'available'>
+
+const AVAILABILITY_ICONS = {
+  available: CheckCircle2,
+  held: Hourglass,
+  booked: Lock,
+  past: History,
+}
+
+// Row of cards plus the gap below it, before a row has been measured
+const ESTIMATED_ROW_HEIGHT = 260
+// Cards further down the viewport than this enter without extra delay
+const MAX_STAGGERED_CARDS = 8
+
+// Filter buttons, in display order
+const FILTERS: UnavailableState[] = ['held', 'booked', 'past']
+
 /**
  * SlotList - shows available appointment slots in a grid
  * Modern card design with icons, hover effects, and animations
+ * Held, booked and past slots are hidden until revealed with the filters,
+ * and then shown greyed out without a booking button.
+ * Only the rows near the viewport are rendered, so a month of slots stays smooth.
+ * The cards form a listbox: arrow keys move between slots (Up/Down by row),
+ * and Enter or Space books the focused slot.
  */
-export default function SlotList({ slots, onBook }: SlotListProps) {
+export default function SlotList({ slots, onBook, actionLabel }: SlotListProps) {
+  const { t } = useTranslation()
+  const [openedAt] = useState<number>(() => Date.now())
+  const [revealed, setRevealed] = useState<Record<UnavailableState, boolean>>({
+    held: false,
+    booked: false,
+    past: false,
+  })
+
+  const entries = slots.map((slot) => ({ slot, availability: getSlotAvailability(slot, openedAt) }))
+  const counts: Record<UnavailableState, number> = { held: 0, booked: 0, past: 0 }
+  for (const { availability } of entries) {
+    if (availability !== 'available') counts[availability] += 1
+  }
+  const visible = entries.filter(({ availability }) => availability === 'available' || revealed[availability])
+  const filters = FILTERS.filter((state) => counts[state] > 0)
+
+  // One card per row on small screens, two from the sm breakpoint
+  const lanes = useMediaQuery('(min-width: 640px)') ? 2 : 1
+  // A row is identified by the slots in it, so its height is re-measured when they change
+  const rowKey = (row: number) =>
+    visible
+      .slice(row * lanes, (row + 1) * lanes)
+      .map(({ slot }) => slot.id)
+      .join('-')
+  const { containerRef, measureRow, indexes, firstVisible, scrollToIndex, paddingTop, paddingBottom } =
+    useWindowVirtualizer({
+      count: Math.ceil(visible.length / lanes),
+      estimateSize: ESTIMATED_ROW_HEIGHT,
+      getItemKey: rowKey,
+    })
+  // Slots in the rendered rows
+  const renderedSlots = indexes.flatMap((row) =>
+    Array.from({ length: Math.min(lanes, visible.length - row * lanes) }, (_, lane) => row * lanes + lane)
+  )
+  const { listboxProps, getOptionProps } = useListboxNavigation({
+    count: visible.length,
+    columns: lanes,
+    rendered: renderedSlots,
+    scrollToIndex: (index) => scrollToIndex(Math.floor(index / lanes)),
+    onActivate: (index) => {
+      if (visible[index].availability === 'available') onBook(visible[index].slot)
+    },
+  })
+  const headingId = useId()
+
   if (!slots || slots.length === 0) {
     return (
       <motion.div
@@ -21,75 +98,146 @@ export default function SlotList({ slots, onBook }: SlotListProps) {
       >
         {/* Empty state - dark mode classes removed */}
         <p className="text-slate-500 italic text-sm">
-          No available slots for this doctor.
+          {t('slots.empty')}
         </p>
       </motion.div>
     )
   }
 
-  const formatTime = (iso: string) => {
-    const d = new Date(iso)
-    return d.toLocaleTimeString([], {
-      hour: '2-digit',
-      minute: '2-digit',
-    })
-  }
-
   return (
     <div>
       {/* Section heading - dark mode classes removed */}
-      <h2 className="text-2xl font-bold text-slate-900 mb-4">Available Slots</h2>
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-        {slots.map((slot, index) => (
-          <motion.div
-            key={slot.id}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: index * 0.05 }}
-            whileHover={{ scale: 1.03, y: -4 }}
-            className="bg-white rounded-2xl border-l-4 border-brand-500 border border-slate-200 p-6 flex flex-col justify-between shadow-md hover:shadow-xl transition-all"
-          >
-            <div>
-              <div className="flex items-center justify-between mb-3">
-                {/* Available badge - dark mode classes removed */}
-                <span className="inline-flex items-center gap-1.5 bg-green-50 text-green-700 px-3 py-1 rounded-full text-xs font-semibold">
-                  <CheckCircle2 className="w-3.5 h-3.5" aria-hidden="true" />
-                  Available
-                </span>
-              </div>
-              <div className="flex items-center gap-3 mb-4">
-                <motion.div
-                  whileHover={{ rotate: 360 }}
-                  transition={{ duration: 0.5 }}
-                  className="w-12 h-12 rounded-xl bg-gradient-to-br from-brand-500 to-brand-600 flex items-center justify-center shadow-lg"
-                >
-                  <Clock className="w-6 h-6 text-white" aria-hidden="true" />
-                </motion.div>
-                <div>
-                  {/* Time display - dark mode classes removed */}
-                  <p className="text-3xl font-bold text-slate-900">
-                    {formatTime(slot.start_time)}
-                  </p>
-                  {/* Duration - dark mode classes removed */}
-                  <p className="text-sm text-slate-500 mt-0.5">
-                    {slot.duration_minutes} minutes
-                  </p>
-                </div>
-              </div>
-            </div>
-            {/* Book button - dark mode classes removed */}
-            <motion.button
-              onClick={() => onBook(slot)}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              className="relative w-full inline-flex items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-brand-500 to-brand-600 hover:from-brand-600 hover:to-brand-700 text-white shadow-lg px-4 py-3 text-sm font-semibold transition-all hover:shadow-xl overflow-hidden group"
+      <h2 id={headingId} className="text-2xl font-bold text-slate-900 mb-1">{t('slots.heading')}</h2>
+      <p className="text-xs text-slate-500 mb-4">
+        {t('slots.clinicTime', { zone: getTimeZoneName(slots[0].start_time) })}
+      </p>
+
+      {/* Reveal unavailable slots */}
+      {filters.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4" role="group" aria-label={t('slots.revealLabel')}>
+          <span className="text-xs font-medium text-slate-500">{t('slots.alsoShow')}</span>
+          {filters.map((state) => (
+            <button
+              key={state}
+              type="button"
+              onClick={() => setRevealed((current) => ({ ...current, [state]: !current[state] }))}
+              aria-pressed={revealed[state]}
+              className={`px-3 py-1 rounded-full border text-xs font-medium transition-colors ${
+                revealed[state]
+                  ? 'bg-slate-700 border-slate-700 text-white'
+                  : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+              }`}
             >
-              <span className="absolute inset-0 bg-white opacity-0 group-hover:opacity-20 transition-opacity"></span>
-              <Calendar className="w-4 h-4 relative z-10" />
-              <span className="relative z-10">Book Appointment</span>
-            </motion.button>
-          </motion.div>
-        ))}
+              {t(`slotAvailability.label.${state}`)} ({counts[state]})
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visible.length === 0 && (
+        <p className="text-center text-slate-500 italic text-sm py-4">
+          {t('slots.empty')}
+        </p>
+      )}
+
+      <div role="listbox" aria-labelledby={headingId} {...listboxProps}>
+        <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+          {indexes.map((row) => (
+            <div
+              key={rowKey(row)}
+              ref={measureRow}
+              data-index={row}
+              className={`grid gap-4 pb-4 ${lanes === 2 ? 'grid-cols-2' : 'grid-cols-1'}`}
+            >
+              {visible.slice(row * lanes, (row + 1) * lanes).map(({ slot, availability }, lane) => {
+                const isBookable = availability === 'available'
+                const style = SLOT_AVAILABILITY_STYLES[availability]
+                const statusLabel = t(`slotAvailability.label.${availability}`)
+                const StatusIcon = AVAILABILITY_ICONS[availability]
+                // Stagger from the top of the viewport, not from the top of the list
+                const stagger = Math.min(Math.max(row - firstVisible, 0) * lanes + lane, MAX_STAGGERED_CARDS)
+                const index = row * lanes + lane
+                return (
+                  <motion.div
+                    key={slot.id}
+                    role="option"
+                    aria-selected={false}
+                    aria-disabled={!isBookable}
+                    aria-label={`${formatTime(slot.start_time)}, ${formatDate(slot.start_time, 'short')}, ${formatDuration(slot.duration_minutes)}, ${statusLabel}`}
+                    // Only part of the list is rendered, so give the position explicitly
+                    aria-posinset={index + 1}
+                    aria-setsize={visible.length}
+                    {...getOptionProps(index)}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: stagger * 0.05 }}
+                    whileHover={isBookable ? { scale: 1.03, y: -4 } : undefined}
+                    className={`bg-white rounded-2xl border-s-4 border border-slate-200 p-6 flex flex-col justify-between transition-all focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-500 focus-visible:ring-offset-2 ${
+                      isBookable ? 'border-s-brand-500 shadow-md hover:shadow-xl' : 'border-s-slate-300 opacity-60'
+                    }`}
+                  >
+                    <div>
+                      <div className="flex items-center justify-between mb-3">
+                        {/* Availability badge - dark mode classes removed */}
+                        <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold ${style.badge}`}>
+                          <StatusIcon className="w-3.5 h-3.5" aria-hidden="true" />
+                          {statusLabel}
+                        </span>
+                        <span className="text-xs font-medium text-slate-500">{formatDate(slot.start_time, 'short')}</span>
+                      </div>
+                      <div className="flex items-center gap-3 mb-4">
+                        <motion.div
+                          whileHover={{ rotate: 360 }}
+                          transition={{ duration: 0.5 }}
+                          className="w-12 h-12 rounded-xl bg-gradient-to-br from-brand-500 to-brand-600 flex items-center justify-center shadow-lg"
+                        >
+                          <Clock className="w-6 h-6 text-white" aria-hidden="true" />
+                        </motion.div>
+                        <div>
+                          {/* Time display - dark mode classes removed */}
+                          <p className="text-3xl font-bold text-slate-900">
+                            {formatTime(slot.start_time)}
+                          </p>
+                          {/* Duration - dark mode classes removed */}
+                          <p className="text-sm text-slate-500 mt-0.5">
+                            {formatDuration(slot.duration_minutes)}
+                          </p>
+                          <LocalTimeHint value={slot.start_time} className="block text-xs text-slate-500 mt-0.5" />
+                        </div>
+                      </div>
+                    </div>
+                    {/* Book button - for pointer users; the option itself handles Enter and Space,
+                        and options cannot contain controls, so it stays out of the tab order */}
+                    {isBookable ? (
+                      <motion.button
+                        type="button"
+                        tabIndex={-1}
+                        aria-hidden="true"
+                        onClick={() => onBook(slot)}
+                        whileHover={{ scale: 1.02 }}
+                        whileTap={{ scale: 0.98 }}
+                        className="relative w-full inline-flex items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-brand-500 to-brand-600 hover:from-brand-600 hover:to-brand-700 text-white shadow-lg px-4 py-3 text-sm font-semibold transition-all hover:shadow-xl overflow-hidden group"
+                      >
+                        <span className="absolute inset-0 bg-white opacity-0 group-hover:opacity-20 transition-opacity"></span>
+                        <Calendar className="w-4 h-4 relative z-10" />
+                        <span className="relative z-10">{actionLabel ?? t('slots.book')}</span>
+                      </motion.button>
+                    ) : (
+                      <button
+                        type="button"
+                        disabled
+                        aria-hidden="true"
+                        className="w-full rounded-xl bg-slate-100 text-slate-500 px-4 py-3 text-sm font-semibold cursor-not-allowed"
+                      >
+                        {t('slots.notAvailable')}
+                      </button>
+                    )}
+                  </motion.div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,24 @@
+import type { MatchRange } from '../utils/fuzzySearch'
+import { getSpecializationStyle } from '../utils/specializations'
+import HighlightedText from './HighlightedText'
+
+interface SpecializationBadgeProps {
+  /** Specialization as stored on the doctor - shown by its canonical name */
+  specialization: string
+  /** Search matches in the canonical name (optional) */
+  highlights?: MatchRange[]
+}
+
+/**
+ * SpecializationBadge - Pill with a specialization's icon and colors from the registry
+ */
+export default function SpecializationBadge({ specialization, highlights = [] }: SpecializationBadgeProps) {
+  const { name, icon: Icon, badge } = getSpecializationStyle(specialization)
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 ${badge} px-3 py-1 rounded-full text-xs font-medium`}>
+      <Icon className="w-3.5 h-3.5" aria-hidden="true" />
+      <HighlightedText text={name} ranges={highlights} />
+    </span>
+  )
+}
@@ -0,0 +1,84 @@
+import { ArrowRight, Sparkles } from 'lucide-react'
+import { SPECIALIZATIONS, canonicalSpecialization } from '../utils/specializations'
+import { useTranslation } from '../hooks/useTranslation'
+
+interface SpecializationPickerProps {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  /** Canonical specializations already used by doctors, including custom ones */
+  existing: string[]
+  disabled?: boolean
+  /** Field error from the backend (optional) */
+  error?: string
+}
+
+/**
+ * SpecializationPicker - Text field that suggests registry specializations
+ * Typed values are matched against the registry and the specializations already
+ * in use, so "cardiologist" or "Cardiolgy" is saved as Cardiology instead of
+ * becoming a new filter option. The hint below the field says what will be saved;
+ * callers should save canonicalSpecialization(value, existing).
+ */
+export default function SpecializationPicker({
+  id,
+  value,
+  onChange,
+  existing,
+  disabled = false,
+  error,
+}: SpecializationPickerProps) {
+  const { t, tRich } = useTranslation()
+  const options = Array.from(new Set([...SPECIALIZATIONS.map((entry) => entry.name), ...existing])).sort((a, b) =>
+    a.localeCompare(b)
+  )
+  const typed = value.trim()
+  const canonical = typed ? canonicalSpecialization(typed, existing) : ''
+  // "cardiologist" -> Cardiology, or a typo of a custom specialization already in use
+  const isRenamed = canonical !== typed
+  const isNew = Boolean(typed) && !isRenamed && !options.includes(typed)
+  const hintId = `${id}-hint`
+  const errorId = `${id}-error`
+  const describedBy =
+    [isRenamed || isNew ? hintId : null, error ? errorId : null].filter(Boolean).join(' ') || undefined
+
+  return (
+    <>
+      <input
+        type="text"
+        id={id}
+        list={`${id}-options`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        autoComplete="off"
+        aria-invalid={Boolean(error)}
+        aria-describedby={describedBy}
+        className={`w-full rounded-lg border ${error ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+        placeholder={t('specializationPicker.placeholder')}
+      />
+      <datalist id={`${id}-options`}>
+        {options.map((option) => (
+          <option key={option} value={option} />
+        ))}
+      </datalist>
+      {isRenamed && (
+        <p id={hintId} className="mt-1 flex items-center gap-1 text-xs text-slate-600">
+          <ArrowRight className="w-3.5 h-3.5 rtl:rotate-180" aria-hidden="true" />
+          <span>
+            {tRich('specializationPicker.savedAs', { name: <span className="font-semibold">{canonical}</span> })}
+          </span>
+        </p>
+      )}
+      {isNew && (
+        <p id={hintId} className="mt-1 flex items-center gap-1 text-xs text-slate-600">
+          <Sparkles className="w-3.5 h-3.5" aria-hidden="true" />
+          {t('specializationPicker.new')}
+        </p>
+      )}
+      {error && (
+        <p id={errorId} className="mt-1 text-xs text-red-700">{error}</p>
+      )}
+    </>
+  )
+}
@@ -1,5 +1,6 @@
 import { useEffect } from 'react'
 import { CheckCircle2, XCircle, AlertCircle, X } from 'lucide-react'
+import { useTranslation } from '../hooks/useTranslation'
 
 export type ToastType = 'success' | 'error' | 'info'
 
@@ -12,9 +13,11 @@ interface ToastProps {
 
 /**
  * Toast notification component
- * Displays temporary success/error/info messages
+ * Displays temporary success/error/info messages. Errors are alerts (read out
+ * immediately); the others are status messages read when the reader is idle.
  */
 export default function Toast({ message, type, onClose, duration = 3000 }: ToastProps) {
+  const { t } = useTranslation()
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose()
@@ -31,13 +34,14 @@ export default function Toast({ message, type, onClose, duration = 3000 }: Toast
   }
 
   const icons = {
-    success: <CheckCircle2 className="w-5 h-5 text-green-600" />,
-    error: <XCircle className="w-5 h-5 text-red-600" />,
-    info: <AlertCircle className="w-5 h-5 text-blue-600" />,
+    success: <CheckCircle2 className="w-5 h-5 text-green-600" aria-hidden="true" />,
+    error: <XCircle className="w-5 h-5 text-red-600" aria-hidden="true" />,
+    info: <AlertCircle className="w-5 h-5 text-blue-600" aria-hidden="true" />,
   }
 
   return (
     <div
+      role={type === 'error' ? 'alert' : 'status'}
       className={`${styles[type]} border rounded-lg shadow-lg p-4 flex items-center gap-3 animate-fadeIn min-w-[300px] max-w-md`}
     >
       {icons[type]}
@@ -45,9 +49,9 @@ export default function Toast({ message, type, onClose, duration = 3000 }: Toast
       <button
         onClick={onClose}
         className="text-slate-400 hover:text-slate-600 transition-colors"
-        aria-label="Close notification"
+        aria-label={t('common.closeNotification')}
       >
-        <X className="w-4 h-4" />
+        <X className="w-4 h-4" aria-hidden="true" />
       </button>
     </div>
   )
@@ -1,11 +1,44 @@
-import { createContext, useContext, useState, useEffect } from 'react'
+import { createContext, useContext, useReducer, useEffect, useCallback, useRef } from 'react'
 import type { ReactNode } from 'react'
-import type { Doctor } from '../types'
-import { getDoctors } from '../api/medreserveApi'
+import type { Doctor, DoctorInput, AppointmentSlot, Booking, BookingDetails } from '../types'
+import {
+  getDoctors,
+  getDoctor as fetchDoctor,
+  getDoctorSlots,
+  getSlot as fetchSlot,
+  getBooking,
+  createAdminDoctor,
+  createAdminSlot,
+  bookAppointment,
+  lookupBooking as lookupBookingRequest,
+  cancelBooking as cancelBookingRequest,
+  rescheduleBooking as rescheduleBookingRequest,
+} from '../api/medreserveApi'
+import type { BookingRequestOptions, RequestOptions } from '../api/medreserveApi'
+import { NotFoundError, isAbortError } from '../api/errors'
+import { useLatestRequest } from '../hooks/useLatestRequest'
+import { useTranslation } from '../hooks/useTranslation'
+import { translateError } from '../i18n/errors'
+import {
+  entityReducer,
+  initialEntityState,
+  isQueryFresh,
+  queryKeys,
+  selectBooking,
+  selectDoctor,
+  selectDoctors,
+  selectQuery,
+  selectSlot,
+  selectSlotsForDoctor,
+} from '../store/entityStore'
+import type { QueryState } from '../store/entityStore'
 
 /**
  * AppContext - React Context for global application state
- * Manages doctors list and provides functions to fetch data
+ * Backed by the normalized entity store (doctors, slots, bookings keyed by id).
+ * Reads are stale-while-revalidate: cached data is returned immediately and
+ * refreshed in the background once it is older than STALE_TIME_MS.
+ * Mutations go through this context so the affected queries are invalidated.
  */
 
 // Define the context type
@@ -14,47 +47,442 @@ interface AppContextType {
   loadingDoctors: boolean
   errorDoctors: string | null
   fetchDoctors: () => Promise<void>
+  getDoctor: (doctorId: number) => Doctor | undefined
+  getDoctorQuery: (doctorId: number) => QueryState
+  getSlot: (slotId: number) => AppointmentSlot | undefined
+  getSlotsForDoctor: (doctorId: number) => AppointmentSlot[]
+  getSlotsQuery: (doctorId: number) => QueryState
+  getSlotQuery: (slotId: number) => QueryState
+  getBooking: (bookingId: number) => Booking | undefined
+  getBookingQuery: (bookingId: number) => QueryState
+  loadDoctor: (doctorId: number, options?: LoadOptions) => Promise<void>
+  loadDoctorSlots: (doctorId: number, options?: LoadOptions) => Promise<void>
+  loadSlot: (slotId: number, options?: LoadOptions) => Promise<void>
+  loadBooking: (bookingId: number, options?: LoadBookingOptions) => Promise<void>
+  createDoctor: (payload: DoctorInput) => Promise<Doctor>
+  createSlot: (payload: {
+    doctor_id: number
+    start_time: string
+    duration_minutes: number
+  }) => Promise<AppointmentSlot>
+  bookSlot: (
+    slotId: number,
+    patientData: { name: string; email?: string },
+    options?: BookingRequestOptions
+  ) => Promise<Booking>
+  lookupBooking: (bookingId: number, email: string) => Promise<BookingDetails>
+  cancelBooking: (bookingId: number, manageToken: string) => Promise<BookingDetails>
+  rescheduleBooking: (bookingId: number, slotId: number, manageToken: string) => Promise<BookingDetails>
+}
+
+/**
+ * Options for store reads
+ * force - refetch even when the cached data is still fresh
+ */
+interface LoadOptions extends RequestOptions {
+  force?: boolean
+}
+
+/**
+ * Options for loadBooking
+ * manageToken - the booking's manage_token when this device has it (see utils/bookingHistory)
+ */
+interface LoadBookingOptions extends LoadOptions {
+  manageToken?: string
 }
 
 // Create the context with undefined default
 const AppContext = createContext<AppContextType | undefined>(undefined)
 
+const SLOT_QUERY_PATTERN = /^doctors\/(\d+)\/slots$/
+
 /**
  * AppContextProvider - Provider component for AppContext
  * Loads doctors on mount and provides state management
  */
 export function AppContextProvider({ children }: { children: ReactNode }) {
-  const [doctors, setDoctors] = useState<Doctor[]>([])
-  const [loadingDoctors, setLoadingDoctors] = useState<boolean>(false)
-  const [errorDoctors, setErrorDoctors] = useState<string | null>(null)
+  const [state, dispatch] = useReducer(entityReducer, initialEntityState)
+  const { start: startDoctorsRequest } = useLatestRequest()
+
+  // Latest state for callbacks that decide whether a refetch is needed
+  const stateRef = useRef(state)
+  useEffect(() => {
+    stateRef.current = state
+  }, [state])
+
+  // Latest translator for error messages - read through a ref so switching
+  // language does not give the loaders new identities (and refetch everything)
+  const { t } = useTranslation()
+  const tRef = useRef(t)
+  useEffect(() => {
+    tRef.current = t
+  }, [t])
 
   /**
    * Fetch doctors from the API
+   * A newer call cancels an older one that is still in flight
    */
-  const fetchDoctors = async () => {
-    setLoadingDoctors(true)
-    setErrorDoctors(null)
+  const fetchDoctors = useCallback(async () => {
+    const signal = startDoctorsRequest()
+    const key = queryKeys.doctors()
+    dispatch({ type: 'query/started', key })
     try {
-      const data = await getDoctors()
-      setDoctors(data)
+      const data = await getDoctors({ signal })
+      if (signal.aborted) return
+      dispatch({ type: 'doctors/received', doctors: data })
     } catch (error) {
-      setErrorDoctors(error instanceof Error ? error.message : 'Failed to load doctors')
+      if (isAbortError(error) || signal.aborted) {
+        dispatch({ type: 'query/cancelled', key })
+        return
+      }
+      dispatch({ type: 'query/failed', key, error: translateError(tRef.current, error, tRef.current('store.error.loadDoctors')) })
       console.error('Error fetching doctors:', error)
-    } finally {
-      setLoadingDoctors(false)
     }
-  }
+  }, [startDoctorsRequest])
+
+  /**
+   * Callers waiting on each query key
+   * A load for a key that is already loading does not wait for the first caller:
+   * it requests again and joins the in-flight GET (see api/dedupe). Each caller
+   * can abort on its own, so a query only counts as cancelled once all of them have.
+   */
+  const waitingCallers = useRef(new Map<string, number>())
+
+  const enterQuery = useCallback((key: string) => {
+    waitingCallers.current.set(key, (waitingCallers.current.get(key) ?? 0) + 1)
+    dispatch({ type: 'query/started', key })
+  }, [])
+
+  const leaveQuery = useCallback((key: string): number => {
+    const remaining = (waitingCallers.current.get(key) ?? 1) - 1
+    if (remaining > 0) {
+      waitingCallers.current.set(key, remaining)
+    } else {
+      waitingCallers.current.delete(key)
+    }
+    return remaining
+  }, [])
+
+  const cancelQuery = useCallback(
+    (key: string) => {
+      if (leaveQuery(key) === 0) {
+        dispatch({ type: 'query/cancelled', key })
+      }
+    },
+    [leaveQuery]
+  )
+
+  /**
+   * Load one doctor's full profile into the store (for /doctors/:doctorId)
+   * Same caching and error reporting as loadDoctorSlots.
+   */
+  const loadDoctor = useCallback(async (doctorId: number, options?: LoadOptions) => {
+    const key = queryKeys.doctor(doctorId)
+    const query = selectQuery(stateRef.current, key)
+    if (!options?.force && isQueryFresh(query)) return
+
+    const signal = options?.signal
+    enterQuery(key)
+    try {
+      const doctor = await fetchDoctor(doctorId, { signal })
+      if (signal?.aborted) {
+        cancelQuery(key)
+        return
+      }
+      leaveQuery(key)
+      dispatch({ type: 'doctor/received', doctor })
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) {
+        cancelQuery(key)
+        return
+      }
+      leaveQuery(key)
+      console.error('Error fetching doctor:', error)
+      dispatch({
+        type: 'query/failed',
+        key,
+        error:
+          error instanceof NotFoundError
+            ? tRef.current('store.error.doctorGone')
+            : translateError(tRef.current, error, tRef.current('store.error.loadDoctor')),
+      })
+    }
+  }, [enterQuery, leaveQuery, cancelQuery])
+
+  /**
+   * Load slots for a doctor into the store
+   * Skips the request when cached slots are still fresh unless force is set.
+   * Errors are recorded on the query (see getSlotsQuery) rather than thrown.
+   */
+  const loadDoctorSlots = useCallback(async (doctorId: number, options?: LoadOptions) => {
+    const key = queryKeys.doctorSlots(doctorId)
+    const query = selectQuery(stateRef.current, key)
+    if (!options?.force && isQueryFresh(query)) return
+
+    const signal = options?.signal
+    enterQuery(key)
+    try {
+      const slots = await getDoctorSlots(doctorId, { signal })
+      if (signal?.aborted) {
+        cancelQuery(key)
+        return
+      }
+      leaveQuery(key)
+      dispatch({ type: 'slots/received', doctorId, slots })
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) {
+        cancelQuery(key)
+        return
+      }
+      leaveQuery(key)
+      console.error('Error fetching slots:', error)
+      dispatch({
+        type: 'query/failed',
+        key,
+        error:
+          error instanceof NotFoundError
+            ? tRef.current('store.error.doctorGone')
+            : translateError(tRef.current, error, tRef.current('store.error.loadSlots')),
+      })
+    }
+  }, [enterQuery, leaveQuery, cancelQuery])
+
+  /**
+   * Load a single slot into the store (for deep links to /booking/:slotId)
+   * Same caching and error reporting as loadDoctorSlots.
+   */
+  const loadSlot = useCallback(async (slotId: number, options?: LoadOptions) => {
+    const key = queryKeys.slot(slotId)
+    const query = selectQuery(stateRef.current, key)
+    if (!options?.force && isQueryFresh(query)) return
+
+    const signal = options?.signal
+    enterQuery(key)
+    try {
+      const slot = await fetchSlot(slotId, { signal })
+      if (signal?.aborted) {
+        cancelQuery(key)
+        return
+      }
+      leaveQuery(key)
+      dispatch({ type: 'slot/received', slot })
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) {
+        cancelQuery(key)
+        return
+      }
+      leaveQuery(key)
+      console.error('Error fetching slot:', error)
+      dispatch({
+        type: 'query/failed',
+        key,
+        error:
+          error instanceof NotFoundError
+            ? tRef.current('store.error.slotMissing')
+            : translateError(tRef.current, error, tRef.current('store.error.loadSlot')),
+      })
+    }
+  }, [enterQuery, leaveQuery, cancelQuery])
+
+  /**
+   * Load a booking (and the slot and doctor it embeds) into the store
+   * Same caching and error reporting as loadDoctorSlots.
+   */
+  const loadBooking = useCallback(async (bookingId: number, options?: LoadBookingOptions) => {
+    const key = queryKeys.booking(bookingId)
+    const query = selectQuery(stateRef.current, key)
+    if (!options?.force && isQueryFresh(query)) return
+
+    const signal = options?.signal
+    enterQuery(key)
+    try {
+      const booking = await getBooking(bookingId, { signal, manageToken: options?.manageToken })
+      if (signal?.aborted) {
+        cancelQuery(key)
+        return
+      }
+      leaveQuery(key)
+      dispatch({ type: 'booking/received', booking })
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) {
+        cancelQuery(key)
+        return
+      }
+      leaveQuery(key)
+      console.error('Error fetching booking:', error)
+      dispatch({
+        type: 'query/failed',
+        key,
+        error:
+          error instanceof NotFoundError
+            ? tRef.current('store.error.bookingMissing')
+            : translateError(tRef.current, error, tRef.current('store.error.loadBooking')),
+      })
+    }
+  }, [enterQuery, leaveQuery, cancelQuery])
+
+  /**
+   * Mark a query stale and refetch it if it has been loaded before
+   */
+  const invalidate = useCallback(
+    (key: string) => {
+      dispatch({ type: 'query/invalidated', key })
+      if (selectQuery(stateRef.current, key).updatedAt === null) return
+
+      if (key === queryKeys.doctors()) {
+        void fetchDoctors()
+        return
+      }
+      const match = SLOT_QUERY_PATTERN.exec(key)
+      if (match) {
+        void loadDoctorSlots(Number(match[1]), { force: true })
+      }
+    },
+    [fetchDoctors, loadDoctorSlots]
+  )
+
+  /**
+   * Create a doctor and add it to the store
+   */
+  const createDoctor = useCallback(
+    async (payload: DoctorInput) => {
+      const doctor = await createAdminDoctor(payload)
+      dispatch({ type: 'doctor/upserted', doctor })
+      invalidate(queryKeys.doctors())
+      return doctor
+    },
+    [invalidate]
+  )
+
+  /**
+   * Create a slot and add it to the store
+   * The slot is visible to the patient view straight away
+   */
+  const createSlot = useCallback(
+    async (payload: { doctor_id: number; start_time: string; duration_minutes: number }) => {
+      const slot = await createAdminSlot(payload)
+      dispatch({ type: 'slot/upserted', slot })
+      invalidate(queryKeys.doctorSlots(slot.doctor_id))
+      return slot
+    },
+    [invalidate]
+  )
+
+  /**
+   * Book a slot, cache the booking and refresh that doctor's slots
+   */
+  const bookSlot = useCallback(
+    async (
+      slotId: number,
+      patientData: { name: string; email?: string },
+      options?: BookingRequestOptions
+    ) => {
+      const booking = await bookAppointment(slotId, patientData, options)
+      dispatch({ type: 'booking/upserted', booking })
+
+      const slot = selectSlot(stateRef.current, slotId)
+      if (slot) {
+        invalidate(queryKeys.doctorSlots(slot.doctor_id))
+      } else {
+        // Unknown doctor - mark every slot list stale so the next read refetches
+        for (const key of Object.keys(stateRef.current.queries)) {
+          if (SLOT_QUERY_PATTERN.test(key)) {
+            dispatch({ type: 'query/invalidated', key })
+          }
+        }
+      }
+      return booking
+    },
+    [invalidate]
+  )
+
+  /**
+   * Mark every cached list and lookup that involves these slots stale
+   */
+  const invalidateSlots = useCallback(
+    (slotIds: number[]) => {
+      const doctorIds = new Set<number>()
+      for (const slotId of slotIds) {
+        dispatch({ type: 'query/invalidated', key: queryKeys.slot(slotId) })
+        const slot = selectSlot(stateRef.current, slotId)
+        if (slot) doctorIds.add(slot.doctor_id)
+      }
+      for (const doctorId of doctorIds) {
+        invalidate(queryKeys.doctorSlots(doctorId))
+      }
+    },
+    [invalidate]
+  )
+
+  /**
+   * Find a booking by reference and email and cache it
+   */
+  const lookupBooking = useCallback(async (bookingId: number, email: string) => {
+    const booking = await lookupBookingRequest({ bookingId, email })
+    dispatch({ type: 'booking/received', booking })
+    return booking
+  }, [])
+
+  /**
+   * Cancel a booking and refresh the slot it released
+   */
+  const cancelBooking = useCallback(
+    async (bookingId: number, manageToken: string) => {
+      const booking = await cancelBookingRequest(bookingId, manageToken)
+      dispatch({ type: 'booking/received', booking })
+      invalidateSlots([booking.slot_id])
+      return booking
+    },
+    [invalidateSlots]
+  )
+
+  /**
+   * Move a booking to another slot and refresh both the old and new slot
+   */
+  const rescheduleBooking = useCallback(
+    async (bookingId: number, slotId: number, manageToken: string) => {
+      const previousSlotId = selectBooking(stateRef.current, bookingId)?.slot_id
+      const booking = await rescheduleBookingRequest(bookingId, slotId, manageToken)
+      dispatch({ type: 'booking/received', booking })
+      invalidateSlots(
+        previousSlotId !== undefined ? [previousSlotId, booking.slot_id] : [booking.slot_id]
+      )
+      return booking
+    },
+    [invalidateSlots]
+  )
 
   // Load doctors on component mount
   useEffect(() => {
     fetchDoctors()
-  }, [])
+  }, [fetchDoctors])
+
+  const doctorsQuery = selectQuery(state, queryKeys.doctors())
 
   const value: AppContextType = {
-    doctors,
-    loadingDoctors,
-    errorDoctors,
+    doctors: selectDoctors(state),
+    // Only report loading when there is nothing cached to show
+    loadingDoctors: doctorsQuery.status === 'loading' && doctorsQuery.updatedAt === null,
+    errorDoctors: doctorsQuery.status === 'error' ? doctorsQuery.error : null,
     fetchDoctors,
+    getDoctor: (doctorId) => selectDoctor(state, doctorId),
+    getDoctorQuery: (doctorId) => selectQuery(state, queryKeys.doctor(doctorId)),
+    getSlot: (slotId) => selectSlot(state, slotId),
+    getSlotsForDoctor: (doctorId) => selectSlotsForDoctor(state, doctorId),
+    getSlotsQuery: (doctorId) => selectQuery(state, queryKeys.doctorSlots(doctorId)),
+    getBooking: (bookingId) => selectBooking(state, bookingId),
+    getSlotQuery: (slotId) => selectQuery(state, queryKeys.slot(slotId)),
+    getBookingQuery: (bookingId) => selectQuery(state, queryKeys.booking(bookingId)),
+    loadDoctor,
+    loadDoctorSlots,
+    loadSlot,
+    loadBooking,
+    createDoctor,
+    createSlot,
+    bookSlot,
+    lookupBooking,
+    cancelBooking,
+    rescheduleBooking,
   }
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>
@@ -71,4 +499,3 @@ export function useAppContext(): AppContextType {
   }
   return context
 }
-
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ReactNode } from 'react'
+import type { AdminSession } from '../types'
+import { loginAdmin } from '../api/medreserveApi'
+import { onUnauthorized, setAuthToken } from '../api/authSession'
+import { AuthContext } from '../hooks/useAuth'
+import { useTranslation } from '../hooks/useTranslation'
+import { useToast } from './ToastContext'
+
+// Session survives reloads but not closing the tab
+const STORAGE_KEY = 'medreserve-admin-session'
+
+// Longest delay setTimeout accepts (~24.8 days); longer ones overflow and fire at once
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+/**
+ * Read a stored session, ignoring it once it has expired
+ */
+function loadStoredSession(): AdminSession | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY)
+    if (!stored) return null
+    const session = JSON.parse(stored) as AdminSession
+    if (session.expires_at && Date.parse(session.expires_at) <= Date.now()) {
+      sessionStorage.removeItem(STORAGE_KEY)
+      return null
+    }
+    return session
+  } catch {
+    return null
+  }
+}
+
+/**
+ * AuthProvider - Holds the admin session and shares its token with fetchApi
+ * Logs out when the session expires or the backend rejects the token (401/403)
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { showToast } = useToast()
+  const { t } = useTranslation()
+  const [session, setSession] = useState<AdminSession | null>(() => {
+    const stored = loadStoredSession()
+    // Restore the token before any child issues an admin request
+    setAuthToken(stored?.token ?? null)
+    return stored
+  })
+
+  const logout = useCallback(() => {
+    setAuthToken(null)
+    sessionStorage.removeItem(STORAGE_KEY)
+    setSession(null)
+  }, [])
+
+  const login = useCallback(async (username: string, password: string) => {
+    const newSession = await loginAdmin({ username, password })
+    setAuthToken(newSession.token)
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(newSession))
+    setSession(newSession)
+  }, [])
+
+  // Backend rejected the token - end the session
+  useEffect(() => {
+    return onUnauthorized(() => {
+      if (!sessionStorage.getItem(STORAGE_KEY)) return
+      logout()
+      showToast(t('adminLogin.sessionEnded'), 'error')
+    })
+  }, [logout, showToast, t])
+
+  // Log out automatically when the session reaches its expiry time
+  // An expiry further out than MAX_TIMEOUT_MS is reached in several steps
+  useEffect(() => {
+    if (!session?.expires_at) return
+    const expiresAt = Date.parse(session.expires_at)
+    let timer: ReturnType<typeof setTimeout>
+    const schedule = () => {
+      const remaining = Math.max(expiresAt - Date.now(), 0)
+      timer = setTimeout(() => {
+        if (Date.now() < expiresAt) {
+          schedule()
+          return
+        }
+        logout()
+        showToast(t('adminLogin.sessionExpired'), 'info')
+      }, Math.min(remaining, MAX_TIMEOUT_MS))
+    }
+    schedule()
+    return () => clearTimeout(timer)
+  }, [session, logout, showToast, t])
+
+  return (
+    <AuthContext.Provider
+      value={{ session, isAuthenticated: session !== null, login, logout }}
+    >
+      {children}
+    </AuthContext.Provider>
+  )
+}
@@ -0,0 +1,42 @@
+import { createElement, Fragment, useEffect, useMemo, useState } from 'react'
+import type { ReactNode } from 'react'
+import { LOCALES, LocaleContext, detectLocale, saveLocale, translate, translateParts } from '../i18n'
+import type { Locale, LocaleContextType } from '../i18n'
+import { setDisplayLocale } from '../utils/datetime'
+
+/**
+ * LocaleProvider - Active language, its translations and persistence
+ * The chosen language is remembered in localStorage; on a first visit the
+ * browser's preferred languages decide. Keeps <html lang dir> and the date
+ * formatting in utils/datetime in step with it.
+ */
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const initial = detectLocale()
+    setDisplayLocale(LOCALES[initial].intlLocale)
+    return initial
+  })
+
+  useEffect(() => {
+    const { intlLocale, dir } = LOCALES[locale]
+    document.documentElement.lang = intlLocale
+    document.documentElement.dir = dir
+  }, [locale])
+
+  const value = useMemo<LocaleContextType>(
+    () => ({
+      locale,
+      setLocale: (next) => {
+        // Before re-rendering, so every date in the new render uses the new language
+        setDisplayLocale(LOCALES[next].intlLocale)
+        saveLocale(next)
+        setLocaleState(next)
+      },
+      t: (key, params) => translate(locale, key, params),
+      tRich: (key, params) => createElement(Fragment, null, ...translateParts(locale, key, params)),
+    }),
+    [locale]
+  )
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+}
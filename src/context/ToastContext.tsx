@@ -1,4 +1,4 @@
-import { createContext, useContext, useState } from 'react'
+import { createContext, useContext, useState, useCallback } from 'react'
 import type { ReactNode } from 'react'
 import Toast, { type ToastType } from '../components/Toast'
 
@@ -17,10 +17,11 @@ const ToastContext = createContext<ToastContextType | undefined>(undefined)
 export function ToastProvider({ children }: { children: ReactNode }) {
   const [toasts, setToasts] = useState<ToastItem[]>([])
 
-  const showToast = (message: string, type: ToastType = 'info') => {
+  // Stable identity so consumers can list it as an effect dependency
+  const showToast = useCallback((message: string, type: ToastType = 'info') => {
     const id = Math.random().toString(36).substring(7)
     setToasts((prev) => [...prev, { id, message, type }])
-  }
+  }, [])
 
   const removeToast = (id: string) => {
     setToasts((prev) => prev.filter((toast) => toast.id !== id))
@@ -29,7 +30,8 @@ export function ToastProvider({ children }: { children: ReactNode }) {
   return (
     <ToastContext.Provider value={{ showToast }}>
       {children}
-      <div className="fixed top-20 right-4 z-50 flex flex-col gap-2">
+      {/* Each toast announces itself (role alert or status) - no live region here, so none is read twice */}
+      <div className="fixed top-20 end-4 z-50 flex flex-col gap-2">
         {toasts.map((toast) => (
           <Toast
             key={toast.id}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react'
+import type { AdminSession } from '../types'
+
+export interface AuthContextType {
+  session: AdminSession | null
+  isAuthenticated: boolean
+  login: (username: string, password: string) => Promise<void>
+  logout: () => void
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined)
+
+/**
+ * useAuth - Admin session and the login/logout actions
+ */
+export function useAuth(): AuthContextType {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error('useAuth must be used within AuthProvider')
+  }
+  return context
+}
@@ -0,0 +1,33 @@
+import { useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { AppointmentSlot } from '../types'
+import { useAppContext } from '../context/AppContext'
+import { useToast } from '../context/ToastContext'
+import { useTranslation } from './useTranslation'
+import { getSlotAvailability } from '../utils/slotAvailability'
+
+/**
+ * useBookSlot - Opens the booking page for a slot
+ *
+ * Checks the latest copy of the slot first, so one that has been taken or
+ * has started since the list was shown never opens the booking form.
+ */
+export function useBookSlot() {
+  const { getSlot } = useAppContext()
+  const { showToast } = useToast()
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+
+  return useCallback(
+    (slot: AppointmentSlot) => {
+      const latest = getSlot(slot.id) ?? slot
+      const availability = getSlotAvailability(latest, Date.now())
+      if (availability !== 'available') {
+        showToast(t(`slotAvailability.reason.${availability}`), 'error')
+        return
+      }
+      navigate(`/booking/${slot.id}`, { state: { slot: latest } })
+    },
+    [getSlot, showToast, navigate, t]
+  )
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react'
+import type { Booking } from '../types'
+import { useAppContext } from '../context/AppContext'
+import { useLatestRequest } from './useLatestRequest'
+
+/**
+ * How often a PENDING booking is re-fetched
+ */
+export const BOOKING_POLL_INTERVAL_MS = 2_000
+
+export interface BookingStatusState {
+  /** Latest known booking, undefined until it is in the store */
+  booking: Booking | undefined
+  /** Whole seconds until expires_at, null when the booking has no expiry */
+  secondsRemaining: number | null
+  /** True while the booking is PENDING and being polled */
+  isPolling: boolean
+  /** Last polling error, cleared by the next successful poll */
+  error: string | null
+}
+
+function getSecondsRemaining(booking: Booking | undefined, now: number): number | null {
+  if (!booking?.expires_at || booking.status !== 'PENDING') return null
+  return Math.max(0, Math.ceil((Date.parse(booking.expires_at) - now) / 1000))
+}
+
+/**
+ * useBookingStatus - Tracks a booking until it is CONFIRMED or FAILED
+ *
+ * Polls GET /bookings/:id through the store while the booking is PENDING and
+ * ticks a countdown to expires_at once per second. Polling continues past the
+ * countdown because the backend's expiry job settles the booking a little later.
+ * @param bookingId - Booking to track; pass undefined to stay idle
+ * @param manageToken - The booking's manage_token, sent along when known
+ */
+export function useBookingStatus(
+  bookingId: number | undefined,
+  manageToken?: string
+): BookingStatusState {
+  const { getBooking, getBookingQuery, loadBooking } = useAppContext()
+  const { start: startPoll } = useLatestRequest()
+  const [now, setNow] = useState<number>(() => Date.now())
+
+  const booking = bookingId !== undefined ? getBooking(bookingId) : undefined
+  const query = bookingId !== undefined ? getBookingQuery(bookingId) : undefined
+  const isPending = booking?.status === 'PENDING'
+
+  // Poll while the booking is still pending
+  useEffect(() => {
+    if (bookingId === undefined || !isPending) return
+    const interval = setInterval(() => {
+      void loadBooking(bookingId, { manageToken, signal: startPoll(), force: true })
+    }, BOOKING_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [bookingId, manageToken, isPending, loadBooking, startPoll])
+
+  // Countdown clock
+  useEffect(() => {
+    if (!isPending) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [isPending])
+
+  return {
+    booking,
+    secondsRemaining: getSecondsRemaining(booking, now),
+    isPolling: isPending,
+    error: query?.status === 'error' ? query.error : null,
+  }
+}
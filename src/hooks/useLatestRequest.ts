@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef } from 'react'
+
+/**
+ * useLatestRequest - Keeps only the most recent request of a kind alive
+ *
+ * Each call to start() aborts the previous request and returns a fresh AbortSignal.
+ * After awaiting, callers check signal.aborted to drop responses that were superseded.
+ * Any pending request is aborted when the component unmounts.
+ */
+export function useLatestRequest() {
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const start = useCallback((): AbortSignal => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    return controller.signal
+  }, [])
+
+  const abort = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+  }, [])
+
+  useEffect(() => abort, [abort])
+
+  return { start, abort }
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react'
+import type { KeyboardEvent } from 'react'
+
+interface ListboxNavigationOptions {
+  /** Number of options */
+  count: number
+  /** Options per row when laid out in a grid - Up/Down move by a whole row */
+  columns?: number
+  /** Option to start from, e.g. the selected one */
+  initialIndex?: number
+  /** Options currently rendered (for virtualized lists) */
+  rendered: number[]
+  /** Bring an option that is not rendered into view, so it renders */
+  scrollToIndex: (index: number) => void
+  /** Enter or Space on an option */
+  onActivate: (index: number) => void
+}
+
+/**
+ * useListboxNavigation - Arrow-key navigation for a role="listbox"
+ *
+ * Uses a roving tabindex: one option is in the tab order, and the arrow keys,
+ * Home and End move focus between options (by row in a grid). Enter and Space
+ * activate the focused option. Works with virtualized lists - an option that is
+ * not rendered yet is scrolled into view and focused once it appears.
+ *
+ * Put listboxProps on the listbox and getOptionProps(index) on each option.
+ */
+export function useListboxNavigation({
+  count,
+  columns = 1,
+  initialIndex = 0,
+  rendered,
+  scrollToIndex,
+  onActivate,
+}: ListboxNavigationOptions) {
+  const listboxRef = useRef<HTMLDivElement>(null)
+  const [activeIndex, setActiveIndex] = useState<number>(initialIndex)
+  // Option to focus once it is rendered
+  const pendingFocus = useRef<number | null>(null)
+  const current = Math.min(Math.max(activeIndex, 0), Math.max(count - 1, 0))
+  // The tab stop must be a rendered option, or Tab would skip the list
+  const tabStop = rendered.includes(current) ? current : rendered[0]
+
+  // Focus the option moved to, as soon as it is in the DOM
+  useEffect(() => {
+    const index = pendingFocus.current
+    if (index === null) return
+    const option = listboxRef.current?.querySelector<HTMLElement>(`[data-option-index="${index}"]`)
+    if (option) {
+      pendingFocus.current = null
+      option.focus()
+      option.scrollIntoView({ block: 'nearest' })
+    }
+  })
+
+  const moveTo = (index: number) => {
+    const next = Math.min(Math.max(index, 0), count - 1)
+    setActiveIndex(next)
+    pendingFocus.current = next
+    if (!rendered.includes(next)) {
+      scrollToIndex(next)
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (count === 0) return
+    const keys: Record<string, () => void> = {
+      ArrowDown: () => moveTo(current + columns),
+      ArrowUp: () => moveTo(current - columns),
+      Home: () => moveTo(0),
+      End: () => moveTo(count - 1),
+      Enter: () => onActivate(current),
+      ' ': () => onActivate(current),
+    }
+    if (columns > 1) {
+      keys.ArrowRight = () => moveTo(current + 1)
+      keys.ArrowLeft = () => moveTo(current - 1)
+    }
+    const action = keys[event.key]
+    if (action) {
+      event.preventDefault()
+      action()
+    }
+  }
+
+  const getOptionProps = (index: number) => ({
+    'data-option-index': index,
+    tabIndex: index === tabStop ? 0 : -1,
+    onFocus: () => setActiveIndex(index),
+  })
+
+  return {
+    activeIndex: current,
+    listboxProps: { ref: listboxRef, onKeyDown: handleKeyDown },
+    getOptionProps,
+  }
+}
@@ -0,0 +1,17 @@
+import { useCallback, useSyncExternalStore } from 'react'
+
+/**
+ * useMediaQuery - Whether a CSS media query currently matches
+ * @param query - e.g. "(min-width: 640px)"
+ */
+export function useMediaQuery(query: string): boolean {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const list = window.matchMedia(query)
+      list.addEventListener('change', onChange)
+      return () => list.removeEventListener('change', onChange)
+    },
+    [query]
+  )
+  return useSyncExternalStore(subscribe, () => window.matchMedia(query).matches)
+}
@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react'
+
+// Elements that can take keyboard focus
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])'
+
+/**
+ * useModalDialog - Keyboard behaviour of a modal dialog
+ *
+ * Attach the returned ref to the element with role="dialog". While it is
+ * mounted, focus moves into it, Tab and Shift+Tab cycle within it, Escape calls
+ * onClose and the page behind does not scroll. On unmount focus returns to the
+ * element that had it before the dialog opened.
+ */
+export function useModalDialog<T extends HTMLElement>(onClose: () => void) {
+  const dialogRef = useRef<T>(null)
+  // Latest onClose, so an inline callback does not re-run the setup below
+  const onCloseRef = useRef(onClose)
+
+  useEffect(() => {
+    onCloseRef.current = onClose
+  })
+
+  useEffect(() => {
+    const dialog = dialogRef.current
+    if (!dialog) return
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null
+
+    const focusables = () =>
+      Array.from(dialog.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+        (element) => element.getClientRects().length > 0
+      )
+    ;(focusables()[0] ?? dialog).focus()
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault()
+        onCloseRef.current()
+        return
+      }
+      if (event.key !== 'Tab') return
+
+      const items = focusables()
+      if (items.length === 0) {
+        event.preventDefault()
+        dialog.focus()
+        return
+      }
+      const first = items[0]
+      const last = items[items.length - 1]
+      const active = document.activeElement
+      if (event.shiftKey && (active === first || !dialog.contains(active))) {
+        event.preventDefault()
+        last.focus()
+      } else if (!event.shiftKey && (active === last || !dialog.contains(active))) {
+        event.preventDefault()
+        first.focus()
+      }
+    }
+
+    const { overflow } = document.body.style
+    document.body.style.overflow = 'hidden'
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.body.style.overflow = overflow
+      // The opener may be gone by now (e.g. a form that was replaced)
+      if (previous?.isConnected) {
+        previous.focus()
+      }
+    }
+  }, [])
+
+  return dialogRef
+}
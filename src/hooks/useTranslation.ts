@@ -0,0 +1,16 @@
+import { useContext } from 'react'
+import { LocaleContext } from '../i18n'
+import type { LocaleContextType } from '../i18n'
+
+/**
+ * useTranslation - Active locale and translation helpers
+ * t('booking.title') returns a string, t('admin.slot.scheduled', { count: 3 })
+ * picks the plural form, and tRich() fills placeholders with elements.
+ */
+export function useTranslation(): LocaleContextType {
+  const context = useContext(LocaleContext)
+  if (!context) {
+    throw new Error('useTranslation must be used within LocaleProvider')
+  }
+  return context
+}
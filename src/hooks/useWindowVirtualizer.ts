@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+
+interface WindowVirtualizerOptions {
+  /** Number of rows in the list */
+  count: number
+  /** Height in px assumed for rows that have not been rendered yet */
+  estimateSize: number
+  /** Stable key of the row at an index - measured heights are remembered by key */
+  getItemKey: (index: number) => string | number
+  /** Rows rendered beyond each edge of the viewport */
+  overscan?: number
+}
+
+/**
+ * useWindowVirtualizer - Renders only the rows of a long list that are on screen
+ *
+ * For lists in the normal page flow (the window scrolls, not the list). Attach
+ * containerRef to the list wrapper and give it paddingTop/paddingBottom so the
+ * page keeps its full height; render the rows in `indexes`, each with
+ * data-index={index} and ref={measureRow}. Rows are measured as they render,
+ * so they may differ in height. Heights are cached by getItemKey, so filtering
+ * or reordering the list keeps each row's own height; give each row the same
+ * value as its React key.
+ *
+ * firstVisible is the first row actually in view (ignoring overscan), for
+ * staggering enter animations from the top of the viewport. scrollToIndex
+ * scrolls the window so a row that is not rendered comes into view.
+ */
+export function useWindowVirtualizer({ count, estimateSize, getItemKey, overscan = 4 }: WindowVirtualizerOptions) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const observerRef = useRef<ResizeObserver | null>(null)
+  // Viewport position relative to the top of the list
+  const [viewport, setViewport] = useState(() => ({ top: 0, height: window.innerHeight }))
+  // Measured row heights by row key
+  const [sizes, setSizes] = useState<Record<string, number>>({})
+
+  // Latest getItemKey for the resize observer, which only sees each row's data-index.
+  // Updated before the browser delivers resize notifications for the new rows.
+  const getItemKeyRef = useRef(getItemKey)
+  useLayoutEffect(() => {
+    getItemKeyRef.current = getItemKey
+  }, [getItemKey])
+
+  // Follow scrolling and resizing, at most once per frame
+  useEffect(() => {
+    let frame = 0
+    const update = () => {
+      frame = 0
+      const container = containerRef.current
+      if (!container) return
+      const top = -container.getBoundingClientRect().top
+      const height = window.innerHeight
+      setViewport((current) =>
+        current.top === top && current.height === height ? current : { top, height }
+      )
+    }
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update)
+    }
+
+    schedule()
+    window.addEventListener('scroll', schedule, { passive: true })
+    window.addEventListener('resize', schedule)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', schedule)
+      window.removeEventListener('resize', schedule)
+    }
+  }, [count])
+
+  useEffect(() => {
+    return () => {
+      observerRef.current?.disconnect()
+      observerRef.current = null
+    }
+  }, [])
+
+  /**
+   * Ref callback for rendered rows - keeps their measured height up to date
+   */
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return
+    observerRef.current ??= new ResizeObserver((entries) => {
+      setSizes((current) => {
+        let next = current
+        for (const entry of entries) {
+          const index = Number((entry.target as HTMLElement).dataset.index)
+          if (!Number.isInteger(index)) continue
+          const key = String(getItemKeyRef.current(index))
+          const size = entry.target.getBoundingClientRect().height
+          if (next[key] !== size) {
+            next = next === current ? { ...current } : next
+            next[key] = size
+          }
+        }
+        return next
+      })
+    })
+    const observer = observerRef.current
+    observer.observe(element)
+    return () => observer.unobserve(element)
+  }, [])
+
+  // Top offset of every row, plus the total height at the end
+  const offsets = useMemo(() => {
+    const result = [0]
+    for (let index = 0; index < count; index += 1) {
+      result.push(result[index] + (sizes[String(getItemKey(index))] ?? estimateSize))
+    }
+    return result
+  }, [count, sizes, estimateSize, getItemKey])
+
+  /**
+   * Scroll the window so a row sits a third of the way down the viewport
+   */
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const container = containerRef.current
+      if (!container) return
+      const listTop = container.getBoundingClientRect().top + window.scrollY
+      window.scrollTo({ top: listTop + offsets[Math.min(Math.max(index, 0), count)] - window.innerHeight / 3 })
+    },
+    [offsets, count]
+  )
+
+  // First row whose bottom edge is below a position
+  const rowAt = (position: number) => {
+    let low = 0
+    let high = count
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (offsets[middle + 1] <= position) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+    return low
+  }
+
+  const firstVisible = Math.min(rowAt(viewport.top), Math.max(count - 1, 0))
+  const lastVisible = rowAt(viewport.top + viewport.height)
+  const start = Math.max(0, firstVisible - overscan)
+  const end = Math.min(count, lastVisible + overscan + 1)
+  const indexes = Array.from({ length: Math.max(end - start, 0) }, (_, offset) => start + offset)
+
+  return {
+    containerRef,
+    measureRow,
+    indexes,
+    firstVisible,
+    scrollToIndex,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * User-facing text for API errors
+ * The message an ApiError carries is English - a client default or whatever the
+ * backend sent - so the UI shows the catalog entry for the error's kind instead.
+ */
+
+import {
+  ForbiddenError,
+  InvalidResponseError,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+  SlotConflictError,
+  UnauthorizedError,
+  ValidationError,
+} from '../api/errors'
+import type { LocaleContextType } from './index'
+import type { MessageKey } from './messages/en'
+
+/**
+ * Catalog key for an error's kind, or null when it has none (e.g. an unexpected exception)
+ */
+export function getErrorMessageKey(error: unknown): MessageKey | null {
+  if (error instanceof NetworkError) return 'error.network'
+  if (error instanceof ServerError) return 'error.server'
+  if (error instanceof InvalidResponseError) return 'error.invalidResponse'
+  if (error instanceof ValidationError) return 'error.validation'
+  if (error instanceof UnauthorizedError) return 'error.unauthorized'
+  if (error instanceof ForbiddenError) return 'error.forbidden'
+  if (error instanceof NotFoundError) return 'error.notFound'
+  if (error instanceof SlotConflictError) return 'error.conflict'
+  return null
+}
+
+/**
+ * Translated message for any thrown value
+ * @param t - Translator from useTranslation()
+ * @param error - The caught error
+ * @param fallback - Translated message for errors without a known kind
+ */
+export function translateError(t: LocaleContextType['t'], error: unknown, fallback: string): string {
+  const key = getErrorMessageKey(error)
+  return key ? t(key) : fallback
+}
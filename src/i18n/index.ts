@@ -0,0 +1,135 @@
+/**
+ * Translation layer
+ *
+ * Messages live in per-language catalogs (./messages) keyed like "booking.title";
+ * English is the source and the fallback. Placeholders are written {name}, and
+ * a message that depends on a count has one form per CLDR plural category, picked
+ * with Intl.PluralRules from the {count} parameter. Components read the active
+ * locale and the t() helpers through useTranslation().
+ */
+
+import { createContext } from 'react'
+import type { ReactNode } from 'react'
+import { en } from './messages/en'
+import { es } from './messages/es'
+import { hi } from './messages/hi'
+import type { Catalog, MessageKey } from './messages/en'
+import type { Locale, Message } from './types'
+
+export type { Locale } from './types'
+export type { MessageKey } from './messages/en'
+
+export interface LocaleDefinition {
+  /** Name of the language in that language, for the switcher */
+  label: string
+  /** BCP 47 tag used for dates, numbers and plural rules */
+  intlLocale: string
+  /** Text direction - the layout uses logical (start/end) spacing, so "rtl" locales can be added */
+  dir: 'ltr' | 'rtl'
+}
+
+export const LOCALES: Record<Locale, LocaleDefinition> = {
+  en: { label: 'English', intlLocale: 'en-US', dir: 'ltr' },
+  es: { label: 'Español', intlLocale: 'es', dir: 'ltr' },
+  hi: { label: 'हिन्दी', intlLocale: 'hi-IN', dir: 'ltr' },
+}
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, hi }
+
+const STORAGE_KEY = 'medreserve-locale'
+
+export type MessageParams = Record<string, string | number>
+
+function isLocale(value: string | null | undefined): value is Locale {
+  return Boolean(value) && Object.prototype.hasOwnProperty.call(LOCALES, value as string)
+}
+
+/**
+ * Locale to start with: the one chosen on an earlier visit, else the first
+ * supported language the browser asks for, else English
+ */
+export function detectLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (isLocale(stored)) return stored
+  } catch {
+    // Storage can be unavailable (e.g. blocked cookies) - fall through
+  }
+  for (const tag of navigator.languages) {
+    const language = tag.split('-')[0].toLowerCase()
+    if (isLocale(language)) return language
+  }
+  return DEFAULT_LOCALE
+}
+
+/**
+ * Remember the chosen locale for later visits
+ */
+export function saveLocale(locale: Locale): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale)
+  } catch (error) {
+    console.warn('Could not save the language', error)
+  }
+}
+
+/**
+ * Message text for a locale, with the plural form for params.count chosen
+ */
+function resolveTemplate(locale: Locale, key: MessageKey, count: unknown): string {
+  const message: Message = CATALOGS[locale][key] ?? en[key]
+  if (typeof message === 'string') return message
+  if (typeof count !== 'number') return message.other
+  const category = new Intl.PluralRules(LOCALES[locale].intlLocale).select(count)
+  return message[category] ?? message.other
+}
+
+/**
+ * Split a template into text and placeholder names - odd entries are names
+ */
+function splitTemplate(template: string): string[] {
+  return template.split(/\{(\w+)\}/)
+}
+
+/**
+ * Translate a message, filling in its placeholders
+ * Numbers are formatted for the locale; unknown placeholders are left as written.
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const numberFormat = new Intl.NumberFormat(LOCALES[locale].intlLocale)
+  return splitTemplate(resolveTemplate(locale, key, params.count))
+    .map((part, index) => {
+      if (index % 2 === 0) return part
+      if (!(part in params)) return `{${part}}`
+      const value = params[part]
+      return typeof value === 'number' ? numberFormat.format(value) : value
+    })
+    .join('')
+}
+
+/**
+ * Translate a message whose placeholders are elements, e.g. a bold countdown
+ * Returns the pieces in order, to be rendered as children.
+ */
+export function translateParts(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, ReactNode>
+): ReactNode[] {
+  return splitTemplate(resolveTemplate(locale, key, params.count)).map((part, index) =>
+    index % 2 === 0 ? part : part in params ? params[part] : `{${part}}`
+  )
+}
+
+export interface LocaleContextType {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  /** Translate a message */
+  t: (key: MessageKey, params?: MessageParams) => string
+  /** Translate a message with element placeholders */
+  tRich: (key: MessageKey, params: Record<string, ReactNode>) => ReactNode
+}
+
+export const LocaleContext = createContext<LocaleContextType | undefined>(undefined)
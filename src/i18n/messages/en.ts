@@ -0,0 +1,321 @@
+import type { Message } from '../types'
+
+/**
+ * English messages - the source catalog
+ * Every other catalog must translate each key listed here. Keys are grouped by
+ * the screen or component that shows them.
+ */
+export const en = {
+  // Shared
+  'common.optional': '(optional)',
+  'common.name': 'Name',
+  'common.nameRequired': 'Name is required',
+  'common.error': 'Error: {message}',
+  'common.close': 'Close',
+  'common.chooseAnotherSlot': 'Choose another slot',
+  'common.tryAgain': 'Try again',
+  'common.backToHome': 'Back to home',
+  'common.closeNotification': 'Close notification',
+
+  // Request errors, by kind (see i18n/errors)
+  'error.network': 'Unable to reach the server. Please check your connection.',
+  'error.server': 'The server ran into a problem. Please try again in a moment.',
+  'error.invalidResponse': 'The server sent an unexpected response. Please try again.',
+  'error.validation': 'Some details were not accepted. Please check the form.',
+  'error.unauthorized': 'Please sign in again to continue.',
+  'error.forbidden': 'You do not have permission to do that.',
+  'error.notFound': 'That item could not be found. It may have been removed.',
+  'error.conflict': 'Someone else changed this first. Please refresh and try again.',
+
+  // Navbar
+  'nav.home': 'Home',
+  'nav.myAppointments': 'My Appointments',
+  'nav.admin': 'Admin',
+  'nav.logOut': 'Log out',
+  'nav.language': 'Language',
+
+  // Home page
+  'home.title': 'Book Your Appointment',
+  'home.subtitle': 'Find the right doctor and schedule your visit',
+  'home.feature.booking.title': 'Easy Booking',
+  'home.feature.booking.text': 'Quick & Simple',
+  'home.feature.times.title': 'Flexible Times',
+  'home.feature.times.text': 'Choose Your Slot',
+  'home.feature.doctors.title': 'Expert Doctors',
+  'home.feature.doctors.text': 'Trusted Care',
+  'home.bookNow': 'Book Now',
+  'home.bookNowLabel': 'Book now - scroll to booking area',
+  'home.mode.label': 'Booking mode',
+  'home.mode.browse': 'Browse doctors',
+  'home.mode.earliest': 'Find earliest slot',
+  'home.searchPlaceholder': 'Search doctors by name or specialization, e.g. Dr Smith or heart...',
+  'home.allSpecializations': 'All Specializations',
+  'home.selectDoctorPrompt': 'Select a doctor to view available appointment slots',
+  'home.viewProfile': "View {name}'s profile",
+  'home.slotView.label': 'Slot view',
+  'home.slotView.cards': 'Cards',
+  'home.slotView.calendar': 'Calendar',
+
+  // Doctor list
+  'doctors.heading': 'Select a Doctor',
+  'doctors.noMatches': 'No doctors found matching your search',
+  'doctors.empty': 'No doctors available',
+  'doctors.viewProfile': 'View profile',
+
+  // Slot list
+  'slots.heading': 'Available Slots',
+  'slots.clinicTime': 'Times are shown in clinic time ({zone})',
+  'slots.revealLabel': 'Show unavailable slots',
+  'slots.alsoShow': 'Also show:',
+  'slots.empty': 'No available slots for this doctor.',
+  'slots.book': 'Book Appointment',
+  'slots.notAvailable': 'Not available',
+  'slots.localTime': '{time} your time',
+
+  // Slot availability
+  'slotAvailability.label.available': 'Available',
+  'slotAvailability.label.held': 'On hold',
+  'slotAvailability.label.booked': 'Booked',
+  'slotAvailability.label.past': 'Past',
+  'slotAvailability.reason.held': 'This slot is being held for another patient. Please choose a different time.',
+  'slotAvailability.reason.booked': 'This slot has already been booked. Please choose a different time.',
+  'slotAvailability.reason.past': 'This slot is in the past. Please choose an upcoming time.',
+
+  // Slot calendar
+  'calendar.previousWeek': 'Previous week',
+  'calendar.previousMonth': 'Previous month',
+  'calendar.nextWeek': 'Next week',
+  'calendar.nextMonth': 'Next month',
+  'calendar.rangeLabel': 'Calendar range',
+  'calendar.week': 'Week',
+  'calendar.month': 'Month',
+  'calendar.openCount': '{count} open',
+  'calendar.openSlots': { one: '{count} open slot', other: '{count} open slots' },
+  'calendar.noOpenings': 'no openings',
+  'calendar.choosePrompt': 'Choose a highlighted day to see its open slots.',
+
+  // Earliest slot finder
+  'earliest.heading': 'Find the Earliest Slot',
+  'earliest.specialization': 'Specialization',
+  'earliest.anySpecialization': 'Any specialization',
+  'earliest.from': 'From',
+  'earliest.to': 'To',
+  'earliest.timeOfDay': 'Time of day',
+  'earliest.time.any': 'Any time',
+  'earliest.time.morning': 'Morning (before 12)',
+  'earliest.time.afternoon': 'Afternoon (12–5)',
+  'earliest.time.evening': 'Evening (after 5)',
+  'earliest.submit': 'Find earliest slots',
+  'earliest.prompt': 'Choose a specialization and optional window, then search.',
+  'earliest.noDoctors': 'No doctors match this specialization.',
+  'earliest.partialResults': {
+    one: 'Slots for {count} doctor could not be loaded, so results may be incomplete.',
+    other: 'Slots for {count} doctors could not be loaded, so results may be incomplete.',
+  },
+  'earliest.noResults': 'No openings in this window. Try widening the dates or time of day.',
+  'earliest.book': 'Book',
+
+  // Specialization picker
+  'specializationPicker.placeholder': 'Choose or type a specialization',
+  'specializationPicker.savedAs': 'Will be saved as {name}',
+  'specializationPicker.new': 'New specialization - it will be added to the filters',
+
+  // Booking statuses
+  'bookingStatus.label.CONFIRMED': 'Confirmed',
+  'bookingStatus.label.PENDING': 'Pending',
+  'bookingStatus.label.FAILED': 'Failed',
+  'bookingStatus.label.CANCELLED': 'Cancelled',
+  'bookingStatus.title.CONFIRMED': 'Booking Confirmed',
+  'bookingStatus.title.PENDING': 'Booking Pending',
+  'bookingStatus.title.FAILED': 'Booking Failed',
+  'bookingStatus.title.CANCELLED': 'Booking Cancelled',
+
+  // Booking page
+  'booking.title': 'Book Appointment',
+  'booking.subtitle.ready': 'Complete your booking for the selected time slot',
+  'booking.subtitle.loading': 'Loading slot details…',
+  'booking.subtitle.slot': 'Booking slot #{id}',
+  'booking.selectedSlot': 'Selected Time Slot',
+  'booking.duration': 'Duration: {duration}',
+  'booking.invalidLink': 'This booking link is not valid. Please select a slot from the home page.',
+  'booking.email': 'Email',
+  'booking.namePlaceholder': 'Enter your full name',
+  'booking.emailPlaceholder': 'Enter your email address',
+  'booking.submit': 'Confirm Booking',
+  'booking.submitting': 'Booking...',
+  'booking.retrying': 'Retrying… (attempt {attempt})',
+  'booking.retryNotice': "Connection problem - retrying your booking automatically. You won't be booked twice.",
+  'booking.error.slotTaken': 'Sorry, this slot was just taken by another patient. Please choose a different time.',
+  'booking.error.slotGone': 'This slot no longer exists. Please choose a different time.',
+  'booking.error.failed': 'Failed to book appointment',
+  'booking.toast.pending': 'Booking received - waiting for confirmation',
+  'booking.toast.confirmed': 'Appointment booked successfully!',
+  'booking.toast.failed': 'Your booking could not be confirmed. Please choose another slot.',
+  'booking.announce.status': '{status}, booking #{id}.',
+  'booking.announce.failed': 'The slot has been released. Please choose another slot.',
+  'booking.card.bookingId': 'Booking ID:',
+  'booking.card.status': 'Status:',
+  'booking.card.patient': 'Patient:',
+  'booking.card.email': 'Email:',
+  'booking.pending': 'Waiting for the clinic to confirm your booking.',
+  'booking.held': 'Your slot is held for {countdown}.',
+  'booking.holdExpired': 'The hold has expired - checking the final status…',
+  'booking.failed': 'The booking was not confirmed in time and the slot has been released.',
+  'booking.viewDetails': 'View booking details',
+
+  // Booking ticket
+  'ticket.title': 'Booking Confirmed!',
+  'ticket.subtitle': 'Your appointment has been successfully booked',
+  'ticket.bookingId': 'Booking ID',
+  'ticket.openBooking': 'Open booking #{id}',
+  'ticket.qrAlt': 'QR code',
+  'ticket.addToCalendar': 'Add to Calendar',
+  'ticket.viewBooking': 'View booking',
+  'ticket.done': 'Done',
+
+  // Booking details and manage pages
+  'bookingView.reference': 'Booking #{id}',
+  'bookingView.lookup': 'Booking lookup',
+  'bookingView.invalidLink': 'This booking link is not valid.',
+  'bookingView.slot': 'Slot #{id}',
+  'bookingView.addToCalendar': 'Add to Calendar',
+
+  // Calendar file (.ics)
+  'calendar.summary': 'Appointment with {name}',
+  'calendar.summaryNoDoctor': 'Doctor appointment',
+  'calendar.bookingId': 'Booking ID: {id}',
+  'calendar.patient': 'Patient: {name}',
+  'calendar.clinicTime': 'Clinic time: {date}, {time} ({zone})',
+
+  // Booking details page
+  'bookingDetails.title': 'Your Booking',
+  'bookingDetails.manage': 'Reschedule or cancel',
+
+  // Manage booking page
+  'manage.title': 'Manage Booking',
+  'manage.toast.rescheduled': 'Appointment rescheduled',
+  'manage.toast.cancelled': 'Appointment cancelled',
+  'manage.error.slotTaken': 'Sorry, that slot was just taken. Please pick another time.',
+  'manage.error.reschedule': 'Failed to reschedule appointment',
+  'manage.error.cancel': 'Failed to cancel appointment',
+  'manage.moved': 'Your appointment has been moved.',
+  'manage.cancelled': 'Your appointment has been cancelled and the slot released.',
+  'manage.downloadUpdated': 'Download updated calendar file',
+  'manage.removeFromCalendar': 'Remove from calendar (.ics)',
+  'manage.notChangeable': 'This booking is {status} and can no longer be changed.',
+  'manage.pickTime': 'Pick a new time with {name}:',
+  'manage.pickTimeSameDoctor': 'Pick a new time with the same doctor:',
+  'manage.moveHere': 'Move here',
+  'manage.confirmCancel': 'Cancel this appointment? The slot will be released.',
+  'manage.cancelling': 'Cancelling...',
+  'manage.yesCancel': 'Yes, cancel',
+  'manage.keep': 'Keep appointment',
+  'manage.cancel': 'Cancel appointment',
+  'manage.noToken': 'Changes can only be made on the device this booking was made on.',
+  'manage.backToBooking': 'Back to booking',
+
+  // My appointments page
+  'myAppointments.title': 'My Appointments',
+  'myAppointments.subtitle': 'Bookings made on this device, plus any you look up',
+  'myAppointments.reference': 'Booking reference',
+  'myAppointments.email': 'Email',
+  'myAppointments.emailPlaceholder': 'Email used for the booking',
+  'myAppointments.search': 'Find booking',
+  'myAppointments.searching': 'Searching...',
+  'myAppointments.error.reference': 'Enter the booking reference from your ticket, e.g. #42',
+  'myAppointments.error.email': 'Enter the email you booked with',
+  'myAppointments.error.notFound': 'No booking matches that reference and email.',
+  'myAppointments.error.failed': 'Failed to look up booking',
+  'myAppointments.found': 'Found booking #{id}',
+  'myAppointments.empty': 'No appointments yet. Bookings you make on this device will appear here.',
+  'myAppointments.upcoming': 'Upcoming',
+  'myAppointments.noUpcoming': 'No upcoming appointments.',
+  'myAppointments.past': 'Past',
+  'myAppointments.undated': 'Date unavailable',
+  'myAppointments.loading': 'Loading…',
+  'myAppointments.view': 'View',
+  'myAppointments.manage': 'Manage',
+  'myAppointments.ticket': 'Ticket (.ics)',
+  'myAppointments.remove': 'Remove booking #{id} from this device',
+
+  // Doctor profile page
+  'doctorProfile.invalidLink': 'This doctor link is not valid.',
+  'doctorProfile.qualifications': 'Qualifications',
+  'doctorProfile.languages': 'Languages spoken',
+  'doctorProfile.speaks': 'Speaks {languages}',
+  'doctorProfile.location': 'Clinic location',
+  'doctorProfile.allSlots': "See all of {name}'s slots",
+
+  // Admin dashboard
+  'admin.title': 'Admin Dashboard',
+  'admin.subtitle': 'Create doctors and appointment slots',
+  'admin.stats.doctors': 'Total Doctors',
+  'admin.stats.specializations': 'Specializations',
+  'admin.stats.newThisWeek': 'New This Week',
+  'admin.optionalList': '(optional, comma-separated)',
+  'admin.creating': 'Creating...',
+  'admin.doctor.heading': 'Create Doctor',
+  'admin.doctor.namePlaceholder': 'Enter doctor name',
+  'admin.doctor.specialization': 'Specialization',
+  'admin.doctor.bio': 'Bio',
+  'admin.doctor.bioPlaceholder': 'Short introduction shown on the profile page',
+  'admin.doctor.qualifications': 'Qualifications',
+  'admin.doctor.qualificationsPlaceholder': 'e.g. MBBS, MD (Cardiology)',
+  'admin.doctor.languages': 'Languages spoken',
+  'admin.doctor.languagesPlaceholder': 'e.g. English, Spanish',
+  'admin.doctor.location': 'Clinic location',
+  'admin.doctor.locationPlaceholder': 'e.g. Building A, 2nd floor',
+  'admin.doctor.photo': 'Photo URL',
+  'admin.doctor.submit': 'Create Doctor',
+  'admin.doctor.created': 'Doctor created successfully!',
+  'admin.doctor.failed': 'Failed to create doctor',
+  'admin.slot.heading': 'Create Slot',
+  'admin.slot.doctor': 'Doctor',
+  'admin.slot.selectDoctor': 'Select a doctor',
+  'admin.slot.scheduled': { one: '{count} slot currently scheduled', other: '{count} slots currently scheduled' },
+  'admin.slot.noDoctors': 'No doctors available. Create a doctor first.',
+  'admin.slot.startTime': 'Start Time',
+  'admin.slot.clinicTime': '(clinic time, {zone})',
+  'admin.slot.duration': 'Duration (minutes)',
+  'admin.slot.durationPlaceholder': 'e.g., 30',
+  'admin.slot.submit': 'Create Slot',
+  'admin.slot.error.doctor': 'Please select a doctor',
+  'admin.slot.error.startTime': 'Start time is required',
+  'admin.slot.error.duration': 'Duration must be a positive number',
+  'admin.slot.created': 'Slot created successfully!',
+  'admin.slot.failed': 'Failed to create slot',
+  'admin.doctors.heading': 'Existing Doctors',
+  'admin.doctors.loading': 'Loading doctors...',
+  'admin.doctors.empty': 'No doctors yet. Create one above.',
+
+  // Admin sign-in
+  'adminLogin.title': 'Admin Sign In',
+  'adminLogin.subtitle': 'Sign in to manage doctors and slots',
+  'adminLogin.username': 'Username',
+  'adminLogin.password': 'Password',
+  'adminLogin.required': 'Username and password are required',
+  'adminLogin.invalid': 'Invalid username or password',
+  'adminLogin.failed': 'Failed to sign in',
+  'adminLogin.submit': 'Sign In',
+  'adminLogin.submitting': 'Signing in...',
+  'adminLogin.signedIn': 'Signed in as administrator',
+  'adminLogin.sessionEnded': 'Your admin session has ended. Please sign in again.',
+  'adminLogin.sessionExpired': 'Your admin session has expired. Please sign in again.',
+
+  // Loading errors from the data store
+  'store.error.loadDoctors': 'Failed to load doctors',
+  'store.error.loadDoctor': 'Failed to load doctor',
+  'store.error.doctorGone': 'This doctor is no longer available.',
+  'store.error.loadSlots': 'Failed to load slots',
+  'store.error.slotMissing': 'This appointment slot does not exist.',
+  'store.error.loadSlot': 'Failed to load slot',
+  'store.error.bookingMissing': 'We could not find a booking with this reference.',
+  'store.error.loadBooking': 'Failed to load booking',
+} satisfies Record<string, Message>
+
+export type MessageKey = keyof typeof en
+
+/**
+ * A complete translation of the English catalog
+ */
+export type Catalog = Record<MessageKey, Message>
@@ -0,0 +1,315 @@
+import type { Catalog } from './en'
+
+/**
+ * Spanish messages
+ */
+export const es: Catalog = {
+  // Shared
+  'common.optional': '(opcional)',
+  'common.name': 'Nombre',
+  'common.nameRequired': 'El nombre es obligatorio',
+  'common.error': 'Error: {message}',
+  'common.close': 'Cerrar',
+  'common.chooseAnotherSlot': 'Elegir otro horario',
+  'common.tryAgain': 'Reintentar',
+  'common.backToHome': 'Volver al inicio',
+  'common.closeNotification': 'Cerrar notificación',
+
+  // Request errors, by kind (see i18n/errors)
+  'error.network': 'No se pudo conectar con el servidor. Compruebe su conexión.',
+  'error.server': 'El servidor tuvo un problema. Vuelva a intentarlo en un momento.',
+  'error.invalidResponse': 'El servidor envió una respuesta inesperada. Vuelva a intentarlo.',
+  'error.validation': 'Algunos datos no se aceptaron. Revise el formulario.',
+  'error.unauthorized': 'Vuelva a iniciar sesión para continuar.',
+  'error.forbidden': 'No tiene permiso para hacer eso.',
+  'error.notFound': 'No se encontró el elemento. Puede que se haya eliminado.',
+  'error.conflict': 'Otra persona lo cambió primero. Actualice e inténtelo de nuevo.',
+
+  // Navbar
+  'nav.home': 'Inicio',
+  'nav.myAppointments': 'Mis citas',
+  'nav.admin': 'Administración',
+  'nav.logOut': 'Cerrar sesión',
+  'nav.language': 'Idioma',
+
+  // Home page
+  'home.title': 'Reserve su cita',
+  'home.subtitle': 'Encuentre al médico adecuado y programe su visita',
+  'home.feature.booking.title': 'Reserva fácil',
+  'home.feature.booking.text': 'Rápida y sencilla',
+  'home.feature.times.title': 'Horarios flexibles',
+  'home.feature.times.text': 'Elija su horario',
+  'home.feature.doctors.title': 'Médicos expertos',
+  'home.feature.doctors.text': 'Atención de confianza',
+  'home.bookNow': 'Reservar ahora',
+  'home.bookNowLabel': 'Reservar ahora - ir a la sección de reservas',
+  'home.mode.label': 'Modo de reserva',
+  'home.mode.browse': 'Ver médicos',
+  'home.mode.earliest': 'Buscar el primer horario',
+  'home.searchPlaceholder': 'Busque médicos por nombre o especialidad, p. ej. Dr Smith o corazón...',
+  'home.allSpecializations': 'Todas las especialidades',
+  'home.selectDoctorPrompt': 'Seleccione un médico para ver los horarios disponibles',
+  'home.viewProfile': 'Ver el perfil de {name}',
+  'home.slotView.label': 'Vista de horarios',
+  'home.slotView.cards': 'Tarjetas',
+  'home.slotView.calendar': 'Calendario',
+
+  // Doctor list
+  'doctors.heading': 'Seleccione un médico',
+  'doctors.noMatches': 'No se encontraron médicos que coincidan con su búsqueda',
+  'doctors.empty': 'No hay médicos disponibles',
+  'doctors.viewProfile': 'Ver perfil',
+
+  // Slot list
+  'slots.heading': 'Horarios disponibles',
+  'slots.clinicTime': 'Las horas se muestran en la hora de la clínica ({zone})',
+  'slots.revealLabel': 'Mostrar horarios no disponibles',
+  'slots.alsoShow': 'Mostrar también:',
+  'slots.empty': 'No hay horarios disponibles para este médico.',
+  'slots.book': 'Reservar cita',
+  'slots.notAvailable': 'No disponible',
+  'slots.localTime': '{time} en su hora',
+
+  // Slot availability
+  'slotAvailability.label.available': 'Disponible',
+  'slotAvailability.label.held': 'En espera',
+  'slotAvailability.label.booked': 'Reservado',
+  'slotAvailability.label.past': 'Pasado',
+  'slotAvailability.reason.held': 'Este horario está apartado para otro paciente. Elija otra hora.',
+  'slotAvailability.reason.booked': 'Este horario ya está reservado. Elija otra hora.',
+  'slotAvailability.reason.past': 'Este horario ya pasó. Elija una hora próxima.',
+
+  // Slot calendar
+  'calendar.previousWeek': 'Semana anterior',
+  'calendar.previousMonth': 'Mes anterior',
+  'calendar.nextWeek': 'Semana siguiente',
+  'calendar.nextMonth': 'Mes siguiente',
+  'calendar.rangeLabel': 'Rango del calendario',
+  'calendar.week': 'Semana',
+  'calendar.month': 'Mes',
+  'calendar.openCount': { one: '{count} libre', other: '{count} libres' },
+  'calendar.openSlots': { one: '{count} horario libre', other: '{count} horarios libres' },
+  'calendar.noOpenings': 'sin horarios libres',
+  'calendar.choosePrompt': 'Elija un día resaltado para ver sus horarios libres.',
+
+  // Earliest slot finder
+  'earliest.heading': 'Buscar el primer horario',
+  'earliest.specialization': 'Especialidad',
+  'earliest.anySpecialization': 'Cualquier especialidad',
+  'earliest.from': 'Desde',
+  'earliest.to': 'Hasta',
+  'earliest.timeOfDay': 'Momento del día',
+  'earliest.time.any': 'Cualquier hora',
+  'earliest.time.morning': 'Mañana (antes de las 12)',
+  'earliest.time.afternoon': 'Tarde (12–17)',
+  'earliest.time.evening': 'Noche (después de las 17)',
+  'earliest.submit': 'Buscar los primeros horarios',
+  'earliest.prompt': 'Elija una especialidad y, si quiere, un intervalo, y luego busque.',
+  'earliest.noDoctors': 'Ningún médico tiene esta especialidad.',
+  'earliest.partialResults': {
+    one: 'No se pudieron cargar los horarios de {count} médico, así que los resultados pueden estar incompletos.',
+    other: 'No se pudieron cargar los horarios de {count} médicos, así que los resultados pueden estar incompletos.',
+  },
+  'earliest.noResults': 'No hay horarios libres en este intervalo. Pruebe a ampliar las fechas o el momento del día.',
+  'earliest.book': 'Reservar',
+
+  // Specialization picker
+  'specializationPicker.placeholder': 'Elija o escriba una especialidad',
+  'specializationPicker.savedAs': 'Se guardará como {name}',
+  'specializationPicker.new': 'Especialidad nueva - se añadirá a los filtros',
+
+  // Booking statuses
+  'bookingStatus.label.CONFIRMED': 'Confirmada',
+  'bookingStatus.label.PENDING': 'Pendiente',
+  'bookingStatus.label.FAILED': 'Fallida',
+  'bookingStatus.label.CANCELLED': 'Cancelada',
+  'bookingStatus.title.CONFIRMED': 'Reserva confirmada',
+  'bookingStatus.title.PENDING': 'Reserva pendiente',
+  'bookingStatus.title.FAILED': 'Reserva fallida',
+  'bookingStatus.title.CANCELLED': 'Reserva cancelada',
+
+  // Booking page
+  'booking.title': 'Reservar cita',
+  'booking.subtitle.ready': 'Complete la reserva del horario seleccionado',
+  'booking.subtitle.loading': 'Cargando el horario…',
+  'booking.subtitle.slot': 'Reserva del horario #{id}',
+  'booking.selectedSlot': 'Horario seleccionado',
+  'booking.duration': 'Duración: {duration}',
+  'booking.invalidLink': 'Este enlace de reserva no es válido. Elija un horario desde la página de inicio.',
+  'booking.email': 'Correo electrónico',
+  'booking.namePlaceholder': 'Escriba su nombre completo',
+  'booking.emailPlaceholder': 'Escriba su correo electrónico',
+  'booking.submit': 'Confirmar reserva',
+  'booking.submitting': 'Reservando...',
+  'booking.retrying': 'Reintentando… (intento {attempt})',
+  'booking.retryNotice': 'Problema de conexión - reintentamos su reserva automáticamente. No se reservará dos veces.',
+  'booking.error.slotTaken': 'Lo sentimos, otro paciente acaba de reservar este horario. Elija otra hora.',
+  'booking.error.slotGone': 'Este horario ya no existe. Elija otra hora.',
+  'booking.error.failed': 'No se pudo reservar la cita',
+  'booking.toast.pending': 'Reserva recibida - esperando confirmación',
+  'booking.toast.confirmed': '¡Cita reservada correctamente!',
+  'booking.toast.failed': 'No se pudo confirmar su reserva. Elija otro horario.',
+  'booking.announce.status': '{status}, reserva #{id}.',
+  'booking.announce.failed': 'El horario se ha liberado. Elija otro horario.',
+  'booking.card.bookingId': 'N.º de reserva:',
+  'booking.card.status': 'Estado:',
+  'booking.card.patient': 'Paciente:',
+  'booking.card.email': 'Correo:',
+  'booking.pending': 'Esperando a que la clínica confirme su reserva.',
+  'booking.held': 'Su horario está apartado durante {countdown}.',
+  'booking.holdExpired': 'La reserva provisional ha caducado - comprobando el estado final…',
+  'booking.failed': 'La reserva no se confirmó a tiempo y el horario se ha liberado.',
+  'booking.viewDetails': 'Ver detalles de la reserva',
+
+  // Booking ticket
+  'ticket.title': '¡Reserva confirmada!',
+  'ticket.subtitle': 'Su cita se ha reservado correctamente',
+  'ticket.bookingId': 'N.º de reserva',
+  'ticket.openBooking': 'Abrir la reserva #{id}',
+  'ticket.qrAlt': 'Código QR',
+  'ticket.addToCalendar': 'Añadir al calendario',
+  'ticket.viewBooking': 'Ver reserva',
+  'ticket.done': 'Listo',
+
+  // Booking details and manage pages
+  'bookingView.reference': 'Reserva #{id}',
+  'bookingView.lookup': 'Buscar reserva',
+  'bookingView.invalidLink': 'Este enlace de reserva no es válido.',
+  'bookingView.slot': 'Horario #{id}',
+  'bookingView.addToCalendar': 'Añadir al calendario',
+
+  // Calendar file (.ics)
+  'calendar.summary': 'Cita con {name}',
+  'calendar.summaryNoDoctor': 'Cita médica',
+  'calendar.bookingId': 'N.º de reserva: {id}',
+  'calendar.patient': 'Paciente: {name}',
+  'calendar.clinicTime': 'Hora de la clínica: {date}, {time} ({zone})',
+
+  // Booking details page
+  'bookingDetails.title': 'Su reserva',
+  'bookingDetails.manage': 'Cambiar de hora o cancelar',
+
+  // Manage booking page
+  'manage.title': 'Gestionar reserva',
+  'manage.toast.rescheduled': 'Cita cambiada de hora',
+  'manage.toast.cancelled': 'Cita cancelada',
+  'manage.error.slotTaken': 'Lo sentimos, ese horario se acaba de ocupar. Elija otra hora.',
+  'manage.error.reschedule': 'No se pudo cambiar la cita de hora',
+  'manage.error.cancel': 'No se pudo cancelar la cita',
+  'manage.moved': 'Su cita se ha cambiado de hora.',
+  'manage.cancelled': 'Su cita se ha cancelado y el horario se ha liberado.',
+  'manage.downloadUpdated': 'Descargar el archivo de calendario actualizado',
+  'manage.removeFromCalendar': 'Quitar del calendario (.ics)',
+  'manage.notChangeable': 'Esta reserva está {status} y ya no se puede cambiar.',
+  'manage.pickTime': 'Elija una nueva hora con {name}:',
+  'manage.pickTimeSameDoctor': 'Elija una nueva hora con el mismo médico:',
+  'manage.moveHere': 'Cambiar aquí',
+  'manage.confirmCancel': '¿Cancelar esta cita? El horario se liberará.',
+  'manage.cancelling': 'Cancelando...',
+  'manage.yesCancel': 'Sí, cancelar',
+  'manage.keep': 'Mantener la cita',
+  'manage.cancel': 'Cancelar cita',
+  'manage.noToken': 'Solo se pueden hacer cambios en el dispositivo donde se hizo esta reserva.',
+  'manage.backToBooking': 'Volver a la reserva',
+
+  // My appointments page
+  'myAppointments.title': 'Mis citas',
+  'myAppointments.subtitle': 'Reservas hechas en este dispositivo y las que busque',
+  'myAppointments.reference': 'Referencia de la reserva',
+  'myAppointments.email': 'Correo electrónico',
+  'myAppointments.emailPlaceholder': 'Correo usado en la reserva',
+  'myAppointments.search': 'Buscar reserva',
+  'myAppointments.searching': 'Buscando...',
+  'myAppointments.error.reference': 'Escriba la referencia de su comprobante, p. ej. #42',
+  'myAppointments.error.email': 'Escriba el correo con el que reservó',
+  'myAppointments.error.notFound': 'Ninguna reserva coincide con esa referencia y ese correo.',
+  'myAppointments.error.failed': 'No se pudo buscar la reserva',
+  'myAppointments.found': 'Reserva #{id} encontrada',
+  'myAppointments.empty': 'Todavía no hay citas. Las reservas que haga en este dispositivo aparecerán aquí.',
+  'myAppointments.upcoming': 'Próximas',
+  'myAppointments.noUpcoming': 'No hay citas próximas.',
+  'myAppointments.past': 'Pasadas',
+  'myAppointments.undated': 'Fecha no disponible',
+  'myAppointments.loading': 'Cargando…',
+  'myAppointments.view': 'Ver',
+  'myAppointments.manage': 'Gestionar',
+  'myAppointments.ticket': 'Comprobante (.ics)',
+  'myAppointments.remove': 'Quitar la reserva #{id} de este dispositivo',
+
+  // Doctor profile page
+  'doctorProfile.invalidLink': 'Este enlace de médico no es válido.',
+  'doctorProfile.qualifications': 'Titulaciones',
+  'doctorProfile.languages': 'Idiomas',
+  'doctorProfile.speaks': 'Habla {languages}',
+  'doctorProfile.location': 'Ubicación en la clínica',
+  'doctorProfile.allSlots': 'Ver todos los horarios de {name}',
+
+  // Admin dashboard
+  'admin.title': 'Panel de administración',
+  'admin.subtitle': 'Cree médicos y horarios de citas',
+  'admin.stats.doctors': 'Médicos en total',
+  'admin.stats.specializations': 'Especialidades',
+  'admin.stats.newThisWeek': 'Nuevos esta semana',
+  'admin.optionalList': '(opcional, separado por comas)',
+  'admin.creating': 'Creando...',
+  'admin.doctor.heading': 'Crear médico',
+  'admin.doctor.namePlaceholder': 'Escriba el nombre del médico',
+  'admin.doctor.specialization': 'Especialidad',
+  'admin.doctor.bio': 'Biografía',
+  'admin.doctor.bioPlaceholder': 'Breve presentación que se muestra en el perfil',
+  'admin.doctor.qualifications': 'Titulaciones',
+  'admin.doctor.qualificationsPlaceholder': 'p. ej. MBBS, MD (Cardiología)',
+  'admin.doctor.languages': 'Idiomas',
+  'admin.doctor.languagesPlaceholder': 'p. ej. inglés, español',
+  'admin.doctor.location': 'Ubicación en la clínica',
+  'admin.doctor.locationPlaceholder': 'p. ej. Edificio A, 2.ª planta',
+  'admin.doctor.photo': 'URL de la foto',
+  'admin.doctor.submit': 'Crear médico',
+  'admin.doctor.created': '¡Médico creado correctamente!',
+  'admin.doctor.failed': 'No se pudo crear el médico',
+  'admin.slot.heading': 'Crear horario',
+  'admin.slot.doctor': 'Médico',
+  'admin.slot.selectDoctor': 'Seleccione un médico',
+  'admin.slot.scheduled': {
+    one: '{count} horario programado actualmente',
+    other: '{count} horarios programados actualmente',
+  },
+  'admin.slot.noDoctors': 'No hay médicos. Cree un médico primero.',
+  'admin.slot.startTime': 'Hora de inicio',
+  'admin.slot.clinicTime': '(hora de la clínica, {zone})',
+  'admin.slot.duration': 'Duración (minutos)',
+  'admin.slot.durationPlaceholder': 'p. ej., 30',
+  'admin.slot.submit': 'Crear horario',
+  'admin.slot.error.doctor': 'Seleccione un médico',
+  'admin.slot.error.startTime': 'La hora de inicio es obligatoria',
+  'admin.slot.error.duration': 'La duración debe ser un número positivo',
+  'admin.slot.created': '¡Horario creado correctamente!',
+  'admin.slot.failed': 'No se pudo crear el horario',
+  'admin.doctors.heading': 'Médicos existentes',
+  'admin.doctors.loading': 'Cargando médicos...',
+  'admin.doctors.empty': 'Todavía no hay médicos. Cree uno arriba.',
+
+  // Admin sign-in
+  'adminLogin.title': 'Acceso de administración',
+  'adminLogin.subtitle': 'Inicie sesión para gestionar médicos y horarios',
+  'adminLogin.username': 'Usuario',
+  'adminLogin.password': 'Contraseña',
+  'adminLogin.required': 'El usuario y la contraseña son obligatorios',
+  'adminLogin.invalid': 'Usuario o contraseña incorrectos',
+  'adminLogin.failed': 'No se pudo iniciar sesión',
+  'adminLogin.submit': 'Iniciar sesión',
+  'adminLogin.submitting': 'Iniciando sesión...',
+  'adminLogin.signedIn': 'Sesión iniciada como administrador',
+  'adminLogin.sessionEnded': 'Su sesión de administración ha terminado. Vuelva a iniciar sesión.',
+  'adminLogin.sessionExpired': 'Su sesión de administración ha caducado. Vuelva a iniciar sesión.',
+
+  // Loading errors from the data store
+  'store.error.loadDoctors': 'No se pudieron cargar los médicos',
+  'store.error.loadDoctor': 'No se pudo cargar el médico',
+  'store.error.doctorGone': 'Este médico ya no está disponible.',
+  'store.error.loadSlots': 'No se pudieron cargar los horarios',
+  'store.error.slotMissing': 'Este horario de cita no existe.',
+  'store.error.loadSlot': 'No se pudo cargar el horario',
+  'store.error.bookingMissing': 'No encontramos ninguna reserva con esta referencia.',
+  'store.error.loadBooking': 'No se pudo cargar la reserva',
+}
@@ -0,0 +1,309 @@
+import type { Catalog } from './en'
+
+/**
+ * Hindi messages
+ */
+export const hi: Catalog = {
+  // Shared
+  'common.optional': '(वैकल्पिक)',
+  'common.name': 'नाम',
+  'common.nameRequired': 'नाम आवश्यक है',
+  'common.error': 'त्रुटि: {message}',
+  'common.close': 'बंद करें',
+  'common.chooseAnotherSlot': 'दूसरा स्लॉट चुनें',
+  'common.tryAgain': 'फिर से कोशिश करें',
+  'common.backToHome': 'होम पर वापस जाएँ',
+  'common.closeNotification': 'सूचना बंद करें',
+
+  // Request errors, by kind (see i18n/errors)
+  'error.network': 'सर्वर से संपर्क नहीं हो सका। कृपया अपना कनेक्शन जाँचें।',
+  'error.server': 'सर्वर में कोई समस्या आई। कृपया थोड़ी देर में फिर से कोशिश करें।',
+  'error.invalidResponse': 'सर्वर से अनपेक्षित जवाब मिला। कृपया फिर से कोशिश करें।',
+  'error.validation': 'कुछ जानकारी स्वीकार नहीं हुई। कृपया फ़ॉर्म जाँचें।',
+  'error.unauthorized': 'जारी रखने के लिए कृपया फिर से साइन इन करें।',
+  'error.forbidden': 'आपको ऐसा करने की अनुमति नहीं है।',
+  'error.notFound': 'यह आइटम नहीं मिला। हो सकता है इसे हटा दिया गया हो।',
+  'error.conflict': 'किसी और ने इसे पहले बदल दिया। कृपया रीफ़्रेश करके फिर से कोशिश करें।',
+
+  // Navbar
+  'nav.home': 'होम',
+  'nav.myAppointments': 'मेरी अपॉइंटमेंट',
+  'nav.admin': 'एडमिन',
+  'nav.logOut': 'लॉग आउट',
+  'nav.language': 'भाषा',
+
+  // Home page
+  'home.title': 'अपनी अपॉइंटमेंट बुक करें',
+  'home.subtitle': 'सही डॉक्टर खोजें और अपनी विज़िट तय करें',
+  'home.feature.booking.title': 'आसान बुकिंग',
+  'home.feature.booking.text': 'तेज़ और सरल',
+  'home.feature.times.title': 'सुविधाजनक समय',
+  'home.feature.times.text': 'अपना स्लॉट चुनें',
+  'home.feature.doctors.title': 'विशेषज्ञ डॉक्टर',
+  'home.feature.doctors.text': 'भरोसेमंद देखभाल',
+  'home.bookNow': 'अभी बुक करें',
+  'home.bookNowLabel': 'अभी बुक करें - बुकिंग वाले हिस्से पर जाएँ',
+  'home.mode.label': 'बुकिंग का तरीका',
+  'home.mode.browse': 'डॉक्टर देखें',
+  'home.mode.earliest': 'सबसे पहला स्लॉट खोजें',
+  'home.searchPlaceholder': 'नाम या विशेषज्ञता से डॉक्टर खोजें, जैसे Dr Smith या heart...',
+  'home.allSpecializations': 'सभी विशेषज्ञताएँ',
+  'home.selectDoctorPrompt': 'उपलब्ध अपॉइंटमेंट स्लॉट देखने के लिए डॉक्टर चुनें',
+  'home.viewProfile': '{name} की प्रोफ़ाइल देखें',
+  'home.slotView.label': 'स्लॉट दृश्य',
+  'home.slotView.cards': 'कार्ड',
+  'home.slotView.calendar': 'कैलेंडर',
+
+  // Doctor list
+  'doctors.heading': 'डॉक्टर चुनें',
+  'doctors.noMatches': 'आपकी खोज से मेल खाता कोई डॉक्टर नहीं मिला',
+  'doctors.empty': 'कोई डॉक्टर उपलब्ध नहीं है',
+  'doctors.viewProfile': 'प्रोफ़ाइल देखें',
+
+  // Slot list
+  'slots.heading': 'उपलब्ध स्लॉट',
+  'slots.clinicTime': 'समय क्लिनिक के समय ({zone}) में दिखाया गया है',
+  'slots.revealLabel': 'अनुपलब्ध स्लॉट दिखाएँ',
+  'slots.alsoShow': 'ये भी दिखाएँ:',
+  'slots.empty': 'इस डॉक्टर के लिए कोई स्लॉट उपलब्ध नहीं है।',
+  'slots.book': 'अपॉइंटमेंट बुक करें',
+  'slots.notAvailable': 'उपलब्ध नहीं',
+  'slots.localTime': 'आपके समय से {time}',
+
+  // Slot availability
+  'slotAvailability.label.available': 'उपलब्ध',
+  'slotAvailability.label.held': 'होल्ड पर',
+  'slotAvailability.label.booked': 'बुक हो चुका',
+  'slotAvailability.label.past': 'बीत चुका',
+  'slotAvailability.reason.held': 'यह स्लॉट किसी दूसरे मरीज़ के लिए होल्ड पर है। कृपया कोई दूसरा समय चुनें।',
+  'slotAvailability.reason.booked': 'यह स्लॉट पहले ही बुक हो चुका है। कृपया कोई दूसरा समय चुनें।',
+  'slotAvailability.reason.past': 'यह स्लॉट बीत चुका है। कृपया आने वाला कोई समय चुनें।',
+
+  // Slot calendar
+  'calendar.previousWeek': 'पिछला सप्ताह',
+  'calendar.previousMonth': 'पिछला महीना',
+  'calendar.nextWeek': 'अगला सप्ताह',
+  'calendar.nextMonth': 'अगला महीना',
+  'calendar.rangeLabel': 'कैलेंडर अवधि',
+  'calendar.week': 'सप्ताह',
+  'calendar.month': 'महीना',
+  'calendar.openCount': '{count} खाली',
+  'calendar.openSlots': '{count} खाली स्लॉट',
+  'calendar.noOpenings': 'कोई खाली स्लॉट नहीं',
+  'calendar.choosePrompt': 'खाली स्लॉट देखने के लिए हाइलाइट किया गया दिन चुनें।',
+
+  // Earliest slot finder
+  'earliest.heading': 'सबसे पहला स्लॉट खोजें',
+  'earliest.specialization': 'विशेषज्ञता',
+  'earliest.anySpecialization': 'कोई भी विशेषज्ञता',
+  'earliest.from': 'से',
+  'earliest.to': 'तक',
+  'earliest.timeOfDay': 'दिन का समय',
+  'earliest.time.any': 'कोई भी समय',
+  'earliest.time.morning': 'सुबह (12 बजे से पहले)',
+  'earliest.time.afternoon': 'दोपहर (12–5)',
+  'earliest.time.evening': 'शाम (5 बजे के बाद)',
+  'earliest.submit': 'सबसे पहले स्लॉट खोजें',
+  'earliest.prompt': 'विशेषज्ञता और चाहें तो तारीखें चुनें, फिर खोजें।',
+  'earliest.noDoctors': 'इस विशेषज्ञता का कोई डॉक्टर नहीं है।',
+  'earliest.partialResults': '{count} डॉक्टर के स्लॉट लोड नहीं हो सके, इसलिए परिणाम अधूरे हो सकते हैं।',
+  'earliest.noResults': 'इस अवधि में कोई खाली स्लॉट नहीं है। तारीखें या दिन का समय बढ़ाकर देखें।',
+  'earliest.book': 'बुक करें',
+
+  // Specialization picker
+  'specializationPicker.placeholder': 'विशेषज्ञता चुनें या लिखें',
+  'specializationPicker.savedAs': '{name} के रूप में सेव होगा',
+  'specializationPicker.new': 'नई विशेषज्ञता - इसे फ़िल्टर में जोड़ा जाएगा',
+
+  // Booking statuses
+  'bookingStatus.label.CONFIRMED': 'पुष्ट',
+  'bookingStatus.label.PENDING': 'लंबित',
+  'bookingStatus.label.FAILED': 'विफल',
+  'bookingStatus.label.CANCELLED': 'रद्द',
+  'bookingStatus.title.CONFIRMED': 'बुकिंग पुष्ट हुई',
+  'bookingStatus.title.PENDING': 'बुकिंग लंबित है',
+  'bookingStatus.title.FAILED': 'बुकिंग विफल रही',
+  'bookingStatus.title.CANCELLED': 'बुकिंग रद्द हुई',
+
+  // Booking page
+  'booking.title': 'अपॉइंटमेंट बुक करें',
+  'booking.subtitle.ready': 'चुने गए समय स्लॉट की बुकिंग पूरी करें',
+  'booking.subtitle.loading': 'स्लॉट की जानकारी लोड हो रही है…',
+  'booking.subtitle.slot': 'स्लॉट #{id} की बुकिंग',
+  'booking.selectedSlot': 'चुना गया समय स्लॉट',
+  'booking.duration': 'अवधि: {duration}',
+  'booking.invalidLink': 'यह बुकिंग लिंक मान्य नहीं है। कृपया होम पेज से कोई स्लॉट चुनें।',
+  'booking.email': 'ईमेल',
+  'booking.namePlaceholder': 'अपना पूरा नाम लिखें',
+  'booking.emailPlaceholder': 'अपना ईमेल पता लिखें',
+  'booking.submit': 'बुकिंग की पुष्टि करें',
+  'booking.submitting': 'बुक हो रहा है...',
+  'booking.retrying': 'फिर से कोशिश… (प्रयास {attempt})',
+  'booking.retryNotice': 'कनेक्शन में समस्या - आपकी बुकिंग अपने-आप दोबारा भेजी जा रही है। आपकी बुकिंग दो बार नहीं होगी।',
+  'booking.error.slotTaken': 'माफ़ कीजिए, यह स्लॉट अभी किसी दूसरे मरीज़ ने बुक कर लिया। कृपया कोई दूसरा समय चुनें।',
+  'booking.error.slotGone': 'यह स्लॉट अब मौजूद नहीं है। कृपया कोई दूसरा समय चुनें।',
+  'booking.error.failed': 'अपॉइंटमेंट बुक नहीं हो सकी',
+  'booking.toast.pending': 'बुकिंग मिल गई - पुष्टि का इंतज़ार है',
+  'booking.toast.confirmed': 'अपॉइंटमेंट सफलतापूर्वक बुक हो गई!',
+  'booking.toast.failed': 'आपकी बुकिंग की पुष्टि नहीं हो सकी। कृपया दूसरा स्लॉट चुनें।',
+  'booking.announce.status': '{status}, बुकिंग #{id}।',
+  'booking.announce.failed': 'स्लॉट छोड़ दिया गया है। कृपया दूसरा स्लॉट चुनें।',
+  'booking.card.bookingId': 'बुकिंग आईडी:',
+  'booking.card.status': 'स्थिति:',
+  'booking.card.patient': 'मरीज़:',
+  'booking.card.email': 'ईमेल:',
+  'booking.pending': 'क्लिनिक की ओर से आपकी बुकिंग की पुष्टि का इंतज़ार है।',
+  'booking.held': 'आपका स्लॉट {countdown} तक होल्ड पर है।',
+  'booking.holdExpired': 'होल्ड की अवधि खत्म हो गई - अंतिम स्थिति जाँची जा रही है…',
+  'booking.failed': 'बुकिंग की पुष्टि समय पर नहीं हुई और स्लॉट छोड़ दिया गया है।',
+  'booking.viewDetails': 'बुकिंग का विवरण देखें',
+
+  // Booking ticket
+  'ticket.title': 'बुकिंग पुष्ट हुई!',
+  'ticket.subtitle': 'आपकी अपॉइंटमेंट सफलतापूर्वक बुक हो गई है',
+  'ticket.bookingId': 'बुकिंग आईडी',
+  'ticket.openBooking': 'बुकिंग #{id} खोलें',
+  'ticket.qrAlt': 'QR कोड',
+  'ticket.addToCalendar': 'कैलेंडर में जोड़ें',
+  'ticket.viewBooking': 'बुकिंग देखें',
+  'ticket.done': 'हो गया',
+
+  // Booking details and manage pages
+  'bookingView.reference': 'बुकिंग #{id}',
+  'bookingView.lookup': 'बुकिंग खोजें',
+  'bookingView.invalidLink': 'यह बुकिंग लिंक मान्य नहीं है।',
+  'bookingView.slot': 'स्लॉट #{id}',
+  'bookingView.addToCalendar': 'कैलेंडर में जोड़ें',
+
+  // Calendar file (.ics)
+  'calendar.summary': '{name} के साथ अपॉइंटमेंट',
+  'calendar.summaryNoDoctor': 'डॉक्टर के साथ अपॉइंटमेंट',
+  'calendar.bookingId': 'बुकिंग आईडी: {id}',
+  'calendar.patient': 'मरीज़: {name}',
+  'calendar.clinicTime': 'क्लिनिक का समय: {date}, {time} ({zone})',
+
+  // Booking details page
+  'bookingDetails.title': 'आपकी बुकिंग',
+  'bookingDetails.manage': 'समय बदलें या रद्द करें',
+
+  // Manage booking page
+  'manage.title': 'बुकिंग प्रबंधित करें',
+  'manage.toast.rescheduled': 'अपॉइंटमेंट का समय बदल दिया गया',
+  'manage.toast.cancelled': 'अपॉइंटमेंट रद्द हो गई',
+  'manage.error.slotTaken': 'माफ़ कीजिए, वह स्लॉट अभी बुक हो गया। कृपया कोई दूसरा समय चुनें।',
+  'manage.error.reschedule': 'अपॉइंटमेंट का समय नहीं बदला जा सका',
+  'manage.error.cancel': 'अपॉइंटमेंट रद्द नहीं हो सकी',
+  'manage.moved': 'आपकी अपॉइंटमेंट का समय बदल दिया गया है।',
+  'manage.cancelled': 'आपकी अपॉइंटमेंट रद्द हो गई है और स्लॉट छोड़ दिया गया है।',
+  'manage.downloadUpdated': 'अपडेट की गई कैलेंडर फ़ाइल डाउनलोड करें',
+  'manage.removeFromCalendar': 'कैलेंडर से हटाएँ (.ics)',
+  'manage.notChangeable': 'यह बुकिंग {status} है और अब बदली नहीं जा सकती।',
+  'manage.pickTime': '{name} के साथ नया समय चुनें:',
+  'manage.pickTimeSameDoctor': 'उसी डॉक्टर के साथ नया समय चुनें:',
+  'manage.moveHere': 'यहाँ ले जाएँ',
+  'manage.confirmCancel': 'यह अपॉइंटमेंट रद्द करें? स्लॉट छोड़ दिया जाएगा।',
+  'manage.cancelling': 'रद्द हो रही है...',
+  'manage.yesCancel': 'हाँ, रद्द करें',
+  'manage.keep': 'अपॉइंटमेंट रखें',
+  'manage.cancel': 'अपॉइंटमेंट रद्द करें',
+  'manage.noToken': 'बदलाव केवल उसी डिवाइस पर किए जा सकते हैं जिस पर यह बुकिंग की गई थी।',
+  'manage.backToBooking': 'बुकिंग पर वापस जाएँ',
+
+  // My appointments page
+  'myAppointments.title': 'मेरी अपॉइंटमेंट',
+  'myAppointments.subtitle': 'इस डिवाइस पर की गई बुकिंग, और जो आप खोजें',
+  'myAppointments.reference': 'बुकिंग संदर्भ',
+  'myAppointments.email': 'ईमेल',
+  'myAppointments.emailPlaceholder': 'बुकिंग में इस्तेमाल किया गया ईमेल',
+  'myAppointments.search': 'बुकिंग खोजें',
+  'myAppointments.searching': 'खोज जारी है...',
+  'myAppointments.error.reference': 'अपने टिकट से बुकिंग संदर्भ लिखें, जैसे #42',
+  'myAppointments.error.email': 'वह ईमेल लिखें जिससे आपने बुकिंग की थी',
+  'myAppointments.error.notFound': 'इस संदर्भ और ईमेल से कोई बुकिंग मेल नहीं खाती।',
+  'myAppointments.error.failed': 'बुकिंग नहीं खोजी जा सकी',
+  'myAppointments.found': 'बुकिंग #{id} मिल गई',
+  'myAppointments.empty': 'अभी कोई अपॉइंटमेंट नहीं है। इस डिवाइस पर की गई बुकिंग यहाँ दिखेंगी।',
+  'myAppointments.upcoming': 'आने वाली',
+  'myAppointments.noUpcoming': 'कोई आने वाली अपॉइंटमेंट नहीं है।',
+  'myAppointments.past': 'पिछली',
+  'myAppointments.undated': 'तारीख उपलब्ध नहीं',
+  'myAppointments.loading': 'लोड हो रहा है…',
+  'myAppointments.view': 'देखें',
+  'myAppointments.manage': 'प्रबंधित करें',
+  'myAppointments.ticket': 'टिकट (.ics)',
+  'myAppointments.remove': 'बुकिंग #{id} को इस डिवाइस से हटाएँ',
+
+  // Doctor profile page
+  'doctorProfile.invalidLink': 'यह डॉक्टर लिंक मान्य नहीं है।',
+  'doctorProfile.qualifications': 'योग्यताएँ',
+  'doctorProfile.languages': 'बोली जाने वाली भाषाएँ',
+  'doctorProfile.speaks': 'भाषाएँ: {languages}',
+  'doctorProfile.location': 'क्लिनिक में स्थान',
+  'doctorProfile.allSlots': '{name} के सभी स्लॉट देखें',
+
+  // Admin dashboard
+  'admin.title': 'एडमिन डैशबोर्ड',
+  'admin.subtitle': 'डॉक्टर और अपॉइंटमेंट स्लॉट बनाएँ',
+  'admin.stats.doctors': 'कुल डॉक्टर',
+  'admin.stats.specializations': 'विशेषज्ञताएँ',
+  'admin.stats.newThisWeek': 'इस सप्ताह नए',
+  'admin.optionalList': '(वैकल्पिक, कॉमा से अलग करें)',
+  'admin.creating': 'बनाया जा रहा है...',
+  'admin.doctor.heading': 'डॉक्टर जोड़ें',
+  'admin.doctor.namePlaceholder': 'डॉक्टर का नाम लिखें',
+  'admin.doctor.specialization': 'विशेषज्ञता',
+  'admin.doctor.bio': 'परिचय',
+  'admin.doctor.bioPlaceholder': 'प्रोफ़ाइल पेज पर दिखने वाला छोटा परिचय',
+  'admin.doctor.qualifications': 'योग्यताएँ',
+  'admin.doctor.qualificationsPlaceholder': 'जैसे MBBS, MD (Cardiology)',
+  'admin.doctor.languages': 'बोली जाने वाली भाषाएँ',
+  'admin.doctor.languagesPlaceholder': 'जैसे हिन्दी, English',
+  'admin.doctor.location': 'क्लिनिक में स्थान',
+  'admin.doctor.locationPlaceholder': 'जैसे बिल्डिंग A, दूसरी मंज़िल',
+  'admin.doctor.photo': 'फ़ोटो URL',
+  'admin.doctor.submit': 'डॉक्टर जोड़ें',
+  'admin.doctor.created': 'डॉक्टर सफलतापूर्वक जोड़ा गया!',
+  'admin.doctor.failed': 'डॉक्टर नहीं जोड़ा जा सका',
+  'admin.slot.heading': 'स्लॉट बनाएँ',
+  'admin.slot.doctor': 'डॉक्टर',
+  'admin.slot.selectDoctor': 'डॉक्टर चुनें',
+  'admin.slot.scheduled': 'अभी {count} स्लॉट तय हैं',
+  'admin.slot.noDoctors': 'कोई डॉक्टर नहीं है। पहले डॉक्टर जोड़ें।',
+  'admin.slot.startTime': 'शुरू होने का समय',
+  'admin.slot.clinicTime': '(क्लिनिक का समय, {zone})',
+  'admin.slot.duration': 'अवधि (मिनट)',
+  'admin.slot.durationPlaceholder': 'जैसे, 30',
+  'admin.slot.submit': 'स्लॉट बनाएँ',
+  'admin.slot.error.doctor': 'कृपया डॉक्टर चुनें',
+  'admin.slot.error.startTime': 'शुरू होने का समय आवश्यक है',
+  'admin.slot.error.duration': 'अवधि एक धनात्मक संख्या होनी चाहिए',
+  'admin.slot.created': 'स्लॉट सफलतापूर्वक बनाया गया!',
+  'admin.slot.failed': 'स्लॉट नहीं बनाया जा सका',
+  'admin.doctors.heading': 'मौजूदा डॉक्टर',
+  'admin.doctors.loading': 'डॉक्टर लोड हो रहे हैं...',
+  'admin.doctors.empty': 'अभी कोई डॉक्टर नहीं है। ऊपर से जोड़ें।',
+
+  // Admin sign-in
+  'adminLogin.title': 'एडमिन साइन इन',
+  'adminLogin.subtitle': 'डॉक्टर और स्लॉट प्रबंधित करने के लिए साइन इन करें',
+  'adminLogin.username': 'यूज़रनेम',
+  'adminLogin.password': 'पासवर्ड',
+  'adminLogin.required': 'यूज़रनेम और पासवर्ड आवश्यक हैं',
+  'adminLogin.invalid': 'यूज़रनेम या पासवर्ड गलत है',
+  'adminLogin.failed': 'साइन इन नहीं हो सका',
+  'adminLogin.submit': 'साइन इन करें',
+  'adminLogin.submitting': 'साइन इन हो रहा है...',
+  'adminLogin.signedIn': 'एडमिन के रूप में साइन इन हो गया',
+  'adminLogin.sessionEnded': 'आपका एडमिन सत्र समाप्त हो गया है। कृपया फिर से साइन इन करें।',
+  'adminLogin.sessionExpired': 'आपके एडमिन सत्र की अवधि खत्म हो गई है। कृपया फिर से साइन इन करें।',
+
+  // Loading errors from the data store
+  'store.error.loadDoctors': 'डॉक्टर लोड नहीं हो सके',
+  'store.error.loadDoctor': 'डॉक्टर लोड नहीं हो सका',
+  'store.error.doctorGone': 'यह डॉक्टर अब उपलब्ध नहीं है।',
+  'store.error.loadSlots': 'स्लॉट लोड नहीं हो सके',
+  'store.error.slotMissing': 'यह अपॉइंटमेंट स्लॉट मौजूद नहीं है।',
+  'store.error.loadSlot': 'स्लॉट लोड नहीं हो सका',
+  'store.error.bookingMissing': 'इस संदर्भ से कोई बुकिंग नहीं मिली।',
+  'store.error.loadBooking': 'बुकिंग लोड नहीं हो सकी',
+}
@@ -0,0 +1,17 @@
+/**
+ * Types shared by the translation layer and the message catalogs
+ */
+
+export type Locale = 'en' | 'es' | 'hi'
+
+/**
+ * A message that depends on a count, by CLDR plural category
+ * (https://www.unicode.org/cldr/charts/latest/supplemental/language_plural_rules.html).
+ * Categories a language does not use can be left out; "other" is the fallback.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+
+/**
+ * A catalog entry - placeholders are written {name}
+ */
+export type Message = string | PluralMessage
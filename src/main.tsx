@@ -5,10 +5,14 @@ import './index.css'
 import App from './App.tsx'
 import { AppContextProvider } from './context/AppContext'
 import { ToastProvider } from './context/ToastContext'
+import { AuthProvider } from './context/AuthContext'
+import { LocaleProvider } from './context/LocaleContext'
 
 /**
  * Main entry point for the MedReserve application
  * Wraps the app with BrowserRouter for client-side routing
+ * LocaleProvider for the chosen language
+ * AuthProvider for the admin session
  * and AppContextProvider for global state management
  * Dark mode removed - light theme only
  */
@@ -18,11 +22,15 @@ console.info('Theme: light only — dark mode disabled')
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
-      <ToastProvider>
-        <AppContextProvider>
-          <App />
-        </AppContextProvider>
-      </ToastProvider>
+      <LocaleProvider>
+        <ToastProvider>
+          <AuthProvider>
+            <AppContextProvider>
+              <App />
+            </AppContextProvider>
+          </AuthProvider>
+        </ToastProvider>
+      </LocaleProvider>
     </BrowserRouter>
   </StrictMode>,
 )
@@ -1,32 +1,58 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import type { FormEvent } from 'react'
 import { motion } from 'framer-motion'
 import { UserPlus, CalendarPlus, User, Users, Calendar, TrendingUp, Activity } from 'lucide-react'
 import { useAppContext } from '../context/AppContext'
-import { createAdminDoctor, createAdminSlot } from '../api/medreserveApi'
 import { useToast } from '../context/ToastContext'
+import { useTranslation } from '../hooks/useTranslation'
+import { ValidationError } from '../api/errors'
+import { translateError } from '../i18n/errors'
+import type { FieldErrors } from '../api/errors'
+import { CLINIC_TIME_ZONE, zonedDateTimeToIso } from '../utils/datetime'
+import { canonicalSpecialization, getSpecializationStyle, uniqueSpecializations } from '../utils/specializations'
+import SpecializationBadge from '../components/SpecializationBadge'
+import SpecializationPicker from '../components/SpecializationPicker'
+import DoctorAvatar from '../components/DoctorAvatar'
+
+/**
+ * Split a comma-separated form value into a list, dropping blanks
+ */
+function splitList(value: string): string[] | undefined {
+  const items = value.split(',').map((item) => item.trim()).filter(Boolean)
+  return items.length > 0 ? items : undefined
+}
 
 /**
  * AdminDashboard - Admin-only view to create doctors & slots and view statistics
  * Route: /admin
  * 
  * Features:
- * - Create new doctors (name, specialization)
+ * - Create new doctors (name, specialization and profile details)
  * - Create new appointment slots for doctors
  * - Display list of existing doctors
  * - Form validation and success messages
  */
 export default function AdminDashboard() {
-  const { doctors, loadingDoctors, fetchDoctors } = useAppContext()
+  const {
+    doctors,
+    loadingDoctors,
+    createDoctor,
+    createSlot,
+    loadDoctorSlots,
+    getSlotsForDoctor,
+  } = useAppContext()
   const { showToast } = useToast()
+  const { t } = useTranslation()
+
+  // Canonical specializations in use - the picker reuses these instead of adding near-duplicates
+  const specializations = useMemo(() => uniqueSpecializations(doctors.map((d) => d.specialization)), [doctors])
 
   // Calculate analytics
   const analytics = useMemo(() => {
     const totalDoctors = doctors.length
-    const totalSpecializations = new Set(doctors.map((d) => d.specialization).filter(Boolean)).size
     return {
       totalDoctors,
-      totalSpecializations,
+      totalSpecializations: specializations.length,
       recentDoctors: doctors.filter((d) => {
         if (!d.created_at) return false
         const created = new Date(d.created_at)
@@ -35,13 +61,20 @@ export default function AdminDashboard() {
         return created > weekAgo
       }).length,
     }
-  }, [doctors])
+  }, [doctors, specializations])
 
   // Create Doctor form state
   const [doctorName, setDoctorName] = useState<string>('')
   const [doctorSpecialization, setDoctorSpecialization] = useState<string>('')
+  const [doctorBio, setDoctorBio] = useState<string>('')
+  // Comma-separated in the form, sent as lists
+  const [doctorQualifications, setDoctorQualifications] = useState<string>('')
+  const [doctorLanguages, setDoctorLanguages] = useState<string>('')
+  const [doctorLocation, setDoctorLocation] = useState<string>('')
+  const [doctorPhotoUrl, setDoctorPhotoUrl] = useState<string>('')
   const [isCreatingDoctor, setIsCreatingDoctor] = useState<boolean>(false)
   const [doctorError, setDoctorError] = useState<string | null>(null)
+  const [doctorFieldErrors, setDoctorFieldErrors] = useState<FieldErrors>({})
   const [doctorSuccess, setDoctorSuccess] = useState<string | null>(null)
 
   // Create Slot form state
@@ -50,48 +83,69 @@ export default function AdminDashboard() {
   const [durationMinutes, setDurationMinutes] = useState<string>('')
   const [isCreatingSlot, setIsCreatingSlot] = useState<boolean>(false)
   const [slotError, setSlotError] = useState<string | null>(null)
+  const [slotFieldErrors, setSlotFieldErrors] = useState<FieldErrors>({})
   const [slotSuccess, setSlotSuccess] = useState<string | null>(null)
 
+  // Load the selected doctor's slots so the form shows what is already scheduled
+  useEffect(() => {
+    if (selectedDoctorId) {
+      void loadDoctorSlots(parseInt(selectedDoctorId))
+    }
+  }, [selectedDoctorId, loadDoctorSlots])
+
+  const scheduledSlotCount = selectedDoctorId
+    ? getSlotsForDoctor(parseInt(selectedDoctorId)).length
+    : 0
+
   /**
    * Handle Create Doctor form submission
    */
   const handleCreateDoctor = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setDoctorError(null)
+    setDoctorFieldErrors({})
     setDoctorSuccess(null)
 
     // Validate name is required
     if (!doctorName.trim()) {
-      setDoctorError('Name is required')
+      setDoctorError(t('common.nameRequired'))
       return
     }
 
     setIsCreatingDoctor(true)
 
     try {
-      // Call admin API endpoint to create doctor
-      await createAdminDoctor({
+      // Create doctor through the store so every view sees it
+      await createDoctor({
         name: doctorName.trim(),
-        specialization: doctorSpecialization.trim() || undefined,
+        specialization: doctorSpecialization.trim()
+          ? canonicalSpecialization(doctorSpecialization, specializations)
+          : undefined,
+        bio: doctorBio.trim() || undefined,
+        qualifications: splitList(doctorQualifications),
+        languages: splitList(doctorLanguages),
+        clinic_location: doctorLocation.trim() || undefined,
+        photo_url: doctorPhotoUrl.trim() || undefined,
       })
 
-      // Success - clear form and refresh doctors list
+      // Success - clear form (the store already holds the new doctor)
       setDoctorName('')
       setDoctorSpecialization('')
-      setDoctorSuccess('Doctor created successfully!')
-      showToast('Doctor created successfully!', 'success')
-      
-      // Refresh doctors list in context
-      await fetchDoctors()
+      setDoctorBio('')
+      setDoctorQualifications('')
+      setDoctorLanguages('')
+      setDoctorLocation('')
+      setDoctorPhotoUrl('')
+      setDoctorSuccess(t('admin.doctor.created'))
+      showToast(t('admin.doctor.created'), 'success')
     } catch (error) {
-      // Display API error message
-      setDoctorError(
-        error instanceof Error ? error.message : 'Failed to create doctor'
-      )
-      showToast(
-        error instanceof Error ? error.message : 'Failed to create doctor',
-        'error'
-      )
+      // Validation errors are shown next to the offending field
+      if (error instanceof ValidationError) {
+        setDoctorFieldErrors(error.fieldErrors)
+      }
+      const message = translateError(t, error, t('admin.doctor.failed'))
+      setDoctorError(message)
+      showToast(message, 'error')
     } finally {
       setIsCreatingDoctor(false)
     }
@@ -103,33 +157,34 @@ export default function AdminDashboard() {
   const handleCreateSlot = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setSlotError(null)
+    setSlotFieldErrors({})
     setSlotSuccess(null)
 
     // Validate required fields
     if (!selectedDoctorId) {
-      setSlotError('Please select a doctor')
+      setSlotError(t('admin.slot.error.doctor'))
       return
     }
 
     if (!startTime) {
-      setSlotError('Start time is required')
+      setSlotError(t('admin.slot.error.startTime'))
       return
     }
 
     const duration = parseInt(durationMinutes)
     if (!durationMinutes || isNaN(duration) || duration <= 0) {
-      setSlotError('Duration must be a positive number')
+      setSlotError(t('admin.slot.error.duration'))
       return
     }
 
     setIsCreatingSlot(true)
 
     try {
-      // Convert datetime-local to ISO string
-      const isoStartTime = new Date(startTime).toISOString()
+      // datetime-local has no zone: the admin enters clinic time, whatever their browser zone
+      const isoStartTime = zonedDateTimeToIso(startTime)
 
-      // Call admin API endpoint with doctor_id in payload
-      await createAdminSlot({
+      // Create slot through the store with doctor_id in payload
+      await createSlot({
         doctor_id: parseInt(selectedDoctorId),
         start_time: isoStartTime,
         duration_minutes: duration,
@@ -138,17 +193,16 @@ export default function AdminDashboard() {
       // Success - clear form
       setStartTime('')
       setDurationMinutes('')
-      setSlotSuccess('Slot created successfully!')
-      showToast('Slot created successfully!', 'success')
+      setSlotSuccess(t('admin.slot.created'))
+      showToast(t('admin.slot.created'), 'success')
     } catch (error) {
-      // Display API error message
-      setSlotError(
-        error instanceof Error ? error.message : 'Failed to create slot'
-      )
-      showToast(
-        error instanceof Error ? error.message : 'Failed to create slot',
-        'error'
-      )
+      // Validation errors are shown next to the offending field
+      if (error instanceof ValidationError) {
+        setSlotFieldErrors(error.fieldErrors)
+      }
+      const message = translateError(t, error, t('admin.slot.failed'))
+      setSlotError(message)
+      showToast(message, 'error')
     } finally {
       setIsCreatingSlot(false)
     }
@@ -162,9 +216,9 @@ export default function AdminDashboard() {
     >
       <div className="mb-8">
         {/* Main heading - dark mode classes removed */}
-        <h1 className="text-3xl font-extrabold text-slate-900 mb-2">Admin Dashboard</h1>
+        <h1 className="text-3xl font-extrabold text-slate-900 mb-2">{t('admin.title')}</h1>
         {/* Subtext - dark mode classes removed */}
-        <p className="text-slate-500">Create doctors and appointment slots</p>
+        <p className="text-slate-500">{t('admin.subtitle')}</p>
       </div>
 
       {/* Analytics Cards */}
@@ -181,7 +235,7 @@ export default function AdminDashboard() {
           {/* Stats number - dark mode classes removed */}
           <p className="text-3xl font-bold mb-1 text-slate-900">{analytics.totalDoctors}</p>
           {/* Stats label - dark mode classes removed */}
-          <p className="text-slate-600 text-sm font-medium">Total Doctors</p>
+          <p className="text-slate-600 text-sm font-medium">{t('admin.stats.doctors')}</p>
         </motion.div>
 
         <motion.div
@@ -196,7 +250,7 @@ export default function AdminDashboard() {
           {/* Stats number - white text on colored background is accessible */}
           <p className="text-3xl font-bold mb-1">{analytics.totalSpecializations}</p>
           {/* Stats label - using white with slight opacity for hierarchy */}
-          <p className="text-white text-sm">Specializations</p>
+          <p className="text-white text-sm">{t('admin.stats.specializations')}</p>
         </motion.div>
 
         <motion.div
@@ -211,7 +265,7 @@ export default function AdminDashboard() {
           {/* Stats number - white text on colored background is accessible */}
           <p className="text-3xl font-bold mb-1">{analytics.recentDoctors}</p>
           {/* Stats label - using white for better contrast */}
-          <p className="text-white text-sm">New This Week</p>
+          <p className="text-white text-sm">{t('admin.stats.newThisWeek')}</p>
         </motion.div>
       </div>
 
@@ -220,7 +274,7 @@ export default function AdminDashboard() {
         <div className="bg-white rounded-2xl shadow-lg p-6 border border-slate-200">
           <div className="flex items-center gap-2 mb-4">
             <UserPlus className="w-5 h-5 text-brand-500" aria-hidden="true" />
-            <h2 className="text-xl font-bold text-slate-800">Create Doctor</h2>
+            <h2 className="text-xl font-bold text-slate-800">{t('admin.doctor.heading')}</h2>
           </div>
           
           <form onSubmit={handleCreateDoctor}>
@@ -228,7 +282,7 @@ export default function AdminDashboard() {
             <div className="mb-4">
               {/* Form inputs - dark mode classes removed */}
               <label htmlFor="doctor-name" className="block text-sm font-medium text-slate-700 mb-1">
-                Name <span className="text-red-500">*</span>
+                {t('common.name')} <span className="text-red-500">*</span>
               </label>
               <input
                 type="text"
@@ -237,25 +291,134 @@ export default function AdminDashboard() {
                 onChange={(e) => setDoctorName(e.target.value)}
                 required
                 disabled={isCreatingDoctor}
-                className="w-full rounded-lg border border-slate-200 bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors"
-                placeholder="Enter doctor name"
+                aria-invalid={Boolean(doctorFieldErrors.name)}
+                aria-describedby={doctorFieldErrors.name ? 'doctor-name-error' : undefined}
+                className={`w-full rounded-lg border ${doctorFieldErrors.name ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+                placeholder={t('admin.doctor.namePlaceholder')}
               />
+              {doctorFieldErrors.name && (
+                <p id="doctor-name-error" className="mt-1 text-xs text-red-700">{doctorFieldErrors.name}</p>
+              )}
             </div>
 
-            {/* Specialization input - dark mode classes removed */}
+            {/* Specialization picker - suggests registry names and folds near-duplicates */}
             <div className="mb-4">
               <label htmlFor="doctor-specialization" className="block text-sm font-medium text-slate-700 mb-1">
-                Specialization <span className="text-slate-400 text-xs">(optional)</span>
+                {t('admin.doctor.specialization')} <span className="text-slate-400 text-xs">{t('common.optional')}</span>
               </label>
-              <input
-                type="text"
+              <SpecializationPicker
                 id="doctor-specialization"
                 value={doctorSpecialization}
-                onChange={(e) => setDoctorSpecialization(e.target.value)}
+                onChange={setDoctorSpecialization}
+                existing={specializations}
+                disabled={isCreatingDoctor}
+                error={doctorFieldErrors.specialization}
+              />
+            </div>
+
+            {/* Bio input */}
+            <div className="mb-4">
+              <label htmlFor="doctor-bio" className="block text-sm font-medium text-slate-700 mb-1">
+                {t('admin.doctor.bio')} <span className="text-slate-400 text-xs">{t('common.optional')}</span>
+              </label>
+              <textarea
+                id="doctor-bio"
+                rows={3}
+                value={doctorBio}
+                onChange={(e) => setDoctorBio(e.target.value)}
+                disabled={isCreatingDoctor}
+                aria-invalid={Boolean(doctorFieldErrors.bio)}
+                aria-describedby={doctorFieldErrors.bio ? 'doctor-bio-error' : undefined}
+                className={`w-full rounded-lg border ${doctorFieldErrors.bio ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+                placeholder={t('admin.doctor.bioPlaceholder')}
+              />
+              {doctorFieldErrors.bio && (
+                <p id="doctor-bio-error" className="mt-1 text-xs text-red-700">{doctorFieldErrors.bio}</p>
+              )}
+            </div>
+
+            {/* Qualifications input */}
+            <div className="mb-4">
+              <label htmlFor="doctor-qualifications" className="block text-sm font-medium text-slate-700 mb-1">
+                {t('admin.doctor.qualifications')} <span className="text-slate-400 text-xs">{t('admin.optionalList')}</span>
+              </label>
+              <input
+                type="text"
+                id="doctor-qualifications"
+                value={doctorQualifications}
+                onChange={(e) => setDoctorQualifications(e.target.value)}
+                disabled={isCreatingDoctor}
+                aria-invalid={Boolean(doctorFieldErrors.qualifications)}
+                aria-describedby={doctorFieldErrors.qualifications ? 'doctor-qualifications-error' : undefined}
+                className={`w-full rounded-lg border ${doctorFieldErrors.qualifications ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+                placeholder={t('admin.doctor.qualificationsPlaceholder')}
+              />
+              {doctorFieldErrors.qualifications && (
+                <p id="doctor-qualifications-error" className="mt-1 text-xs text-red-700">{doctorFieldErrors.qualifications}</p>
+              )}
+            </div>
+
+            {/* Languages input */}
+            <div className="mb-4">
+              <label htmlFor="doctor-languages" className="block text-sm font-medium text-slate-700 mb-1">
+                {t('admin.doctor.languages')} <span className="text-slate-400 text-xs">{t('admin.optionalList')}</span>
+              </label>
+              <input
+                type="text"
+                id="doctor-languages"
+                value={doctorLanguages}
+                onChange={(e) => setDoctorLanguages(e.target.value)}
                 disabled={isCreatingDoctor}
-                className="w-full rounded-lg border border-slate-200 bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors"
-                placeholder="Enter specialization"
+                aria-invalid={Boolean(doctorFieldErrors.languages)}
+                aria-describedby={doctorFieldErrors.languages ? 'doctor-languages-error' : undefined}
+                className={`w-full rounded-lg border ${doctorFieldErrors.languages ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+                placeholder={t('admin.doctor.languagesPlaceholder')}
               />
+              {doctorFieldErrors.languages && (
+                <p id="doctor-languages-error" className="mt-1 text-xs text-red-700">{doctorFieldErrors.languages}</p>
+              )}
+            </div>
+
+            {/* Clinic location input */}
+            <div className="mb-4">
+              <label htmlFor="doctor-location" className="block text-sm font-medium text-slate-700 mb-1">
+                {t('admin.doctor.location')} <span className="text-slate-400 text-xs">{t('common.optional')}</span>
+              </label>
+              <input
+                type="text"
+                id="doctor-location"
+                value={doctorLocation}
+                onChange={(e) => setDoctorLocation(e.target.value)}
+                disabled={isCreatingDoctor}
+                aria-invalid={Boolean(doctorFieldErrors.clinic_location)}
+                aria-describedby={doctorFieldErrors.clinic_location ? 'doctor-location-error' : undefined}
+                className={`w-full rounded-lg border ${doctorFieldErrors.clinic_location ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+                placeholder={t('admin.doctor.locationPlaceholder')}
+              />
+              {doctorFieldErrors.clinic_location && (
+                <p id="doctor-location-error" className="mt-1 text-xs text-red-700">{doctorFieldErrors.clinic_location}</p>
+              )}
+            </div>
+
+            {/* Photo URL input */}
+            <div className="mb-4">
+              <label htmlFor="doctor-photo" className="block text-sm font-medium text-slate-700 mb-1">
+                {t('admin.doctor.photo')} <span className="text-slate-400 text-xs">{t('common.optional')}</span>
+              </label>
+              <input
+                type="url"
+                id="doctor-photo"
+                value={doctorPhotoUrl}
+                onChange={(e) => setDoctorPhotoUrl(e.target.value)}
+                disabled={isCreatingDoctor}
+                aria-invalid={Boolean(doctorFieldErrors.photo_url)}
+                aria-describedby={doctorFieldErrors.photo_url ? 'doctor-photo-error' : undefined}
+                className={`w-full rounded-lg border ${doctorFieldErrors.photo_url ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+                placeholder="https://..."
+              />
+              {doctorFieldErrors.photo_url && (
+                <p id="doctor-photo-error" className="mt-1 text-xs text-red-700">{doctorFieldErrors.photo_url}</p>
+              )}
             </div>
 
             {/* Submit button */}
@@ -266,7 +429,7 @@ export default function AdminDashboard() {
               whileTap={{ scale: isCreatingDoctor ? 1 : 0.98 }}
               className="w-full rounded-lg bg-brand-500 hover:bg-brand-600 text-white shadow-md px-4 py-2.5 text-sm font-medium disabled:bg-slate-400 disabled:cursor-not-allowed transition-all hover:shadow-lg"
             >
-              {isCreatingDoctor ? 'Creating...' : 'Create Doctor'}
+              {isCreatingDoctor ? t('admin.creating') : t('admin.doctor.submit')}
             </motion.button>
 
             {/* Error message */}
@@ -297,7 +460,7 @@ export default function AdminDashboard() {
         <div className="bg-white rounded-2xl shadow-lg p-6 border border-slate-200">
           <div className="flex items-center gap-2 mb-4">
             <CalendarPlus className="w-5 h-5 text-brand-500" aria-hidden="true" />
-            <h2 className="text-xl font-bold text-slate-800">Create Slot</h2>
+            <h2 className="text-xl font-bold text-slate-800">{t('admin.slot.heading')}</h2>
           </div>
           
           <form onSubmit={handleCreateSlot}>
@@ -305,7 +468,7 @@ export default function AdminDashboard() {
             <div className="mb-4">
               {/* Form inputs - dark mode classes removed */}
               <label htmlFor="slot-doctor" className="block text-sm font-medium text-slate-700 mb-1">
-                Doctor <span className="text-red-500">*</span>
+                {t('admin.slot.doctor')} <span className="text-red-500">*</span>
               </label>
               <select
                 id="slot-doctor"
@@ -313,24 +476,35 @@ export default function AdminDashboard() {
                 onChange={(e) => setSelectedDoctorId(e.target.value)}
                 required
                 disabled={isCreatingSlot || loadingDoctors || doctors.length === 0}
-                className="w-full rounded-lg border border-slate-200 bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors appearance-none cursor-pointer"
+                aria-invalid={Boolean(slotFieldErrors.doctor_id)}
+                aria-describedby={slotFieldErrors.doctor_id ? 'slot-doctor-error' : undefined}
+                className={`w-full rounded-lg border ${slotFieldErrors.doctor_id ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors appearance-none cursor-pointer`}
               >
-                <option value="">Select a doctor</option>
+                <option value="">{t('admin.slot.selectDoctor')}</option>
                 {doctors.map((doctor) => (
                   <option key={doctor.id} value={doctor.id}>
-                    {doctor.name} {doctor.specialization ? `- ${doctor.specialization}` : ''}
+                    {doctor.name} {doctor.specialization ? `- ${getSpecializationStyle(doctor.specialization).name}` : ''}
                   </option>
                 ))}
               </select>
+              {slotFieldErrors.doctor_id && (
+                <p id="slot-doctor-error" className="mt-1 text-xs text-red-700">{slotFieldErrors.doctor_id}</p>
+              )}
+              {selectedDoctorId && (
+                <p className="text-xs text-slate-500 mt-1">
+                  {t('admin.slot.scheduled', { count: scheduledSlotCount })}
+                </p>
+              )}
               {doctors.length === 0 && !loadingDoctors && (
-                <p className="text-xs text-slate-500 mt-1">No doctors available. Create a doctor first.</p>
+                <p className="text-xs text-slate-500 mt-1">{t('admin.slot.noDoctors')}</p>
               )}
             </div>
 
             {/* Start time input - dark mode classes removed */}
             <div className="mb-4">
               <label htmlFor="slot-start-time" className="block text-sm font-medium text-slate-700 mb-1">
-                Start Time <span className="text-red-500">*</span>
+                {t('admin.slot.startTime')} <span className="text-red-500">*</span>
+                <span className="text-slate-400 text-xs font-normal"> {t('admin.slot.clinicTime', { zone: CLINIC_TIME_ZONE })}</span>
               </label>
               <input
                 type="datetime-local"
@@ -339,14 +513,19 @@ export default function AdminDashboard() {
                 onChange={(e) => setStartTime(e.target.value)}
                 required
                 disabled={isCreatingSlot}
-                className="w-full rounded-lg border border-slate-200 bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors"
+                aria-invalid={Boolean(slotFieldErrors.start_time)}
+                aria-describedby={slotFieldErrors.start_time ? 'slot-start-time-error' : undefined}
+                className={`w-full rounded-lg border ${slotFieldErrors.start_time ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
               />
+              {slotFieldErrors.start_time && (
+                <p id="slot-start-time-error" className="mt-1 text-xs text-red-700">{slotFieldErrors.start_time}</p>
+              )}
             </div>
 
             {/* Duration input - dark mode classes removed */}
             <div className="mb-4">
               <label htmlFor="slot-duration" className="block text-sm font-medium text-slate-700 mb-1">
-                Duration (minutes) <span className="text-red-500">*</span>
+                {t('admin.slot.duration')} <span className="text-red-500">*</span>
               </label>
               <input
                 type="number"
@@ -356,9 +535,14 @@ export default function AdminDashboard() {
                 required
                 min="1"
                 disabled={isCreatingSlot}
-                className="w-full rounded-lg border border-slate-200 bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors"
-                placeholder="e.g., 30"
+                aria-invalid={Boolean(slotFieldErrors.duration_minutes)}
+                aria-describedby={slotFieldErrors.duration_minutes ? 'slot-duration-error' : undefined}
+                className={`w-full rounded-lg border ${slotFieldErrors.duration_minutes ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+                placeholder={t('admin.slot.durationPlaceholder')}
               />
+              {slotFieldErrors.duration_minutes && (
+                <p id="slot-duration-error" className="mt-1 text-xs text-red-700">{slotFieldErrors.duration_minutes}</p>
+              )}
             </div>
 
             {/* Submit button */}
@@ -369,7 +553,7 @@ export default function AdminDashboard() {
               whileTap={{ scale: isCreatingSlot || doctors.length === 0 ? 1 : 0.98 }}
               className="w-full rounded-lg bg-brand-500 hover:bg-brand-600 text-white shadow-md px-4 py-2.5 text-sm font-medium disabled:bg-slate-400 disabled:cursor-not-allowed transition-all hover:shadow-lg"
             >
-              {isCreatingSlot ? 'Creating...' : 'Create Slot'}
+              {isCreatingSlot ? t('admin.creating') : t('admin.slot.submit')}
             </motion.button>
 
             {/* Error message - dark mode classes removed */}
@@ -401,13 +585,13 @@ export default function AdminDashboard() {
       <div className="mt-8 bg-white rounded-2xl shadow-lg p-6 border border-slate-200">
         <div className="flex items-center gap-2 mb-4">
           <User className="w-5 h-5 text-brand-500" aria-hidden="true" />
-          <h2 className="text-xl font-bold text-slate-800">Existing Doctors</h2>
+          <h2 className="text-xl font-bold text-slate-800">{t('admin.doctors.heading')}</h2>
         </div>
         
         {loadingDoctors ? (
-          <p className="text-slate-500 text-center py-8">Loading doctors...</p>
+          <p className="text-slate-500 text-center py-8">{t('admin.doctors.loading')}</p>
         ) : doctors.length === 0 ? (
-          <p className="text-slate-500 text-center py-8">No doctors yet. Create one above.</p>
+          <p className="text-slate-500 text-center py-8">{t('admin.doctors.empty')}</p>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {doctors.map((doctor) => (
@@ -419,18 +603,12 @@ export default function AdminDashboard() {
                 className="bg-gradient-to-br from-slate-50 to-white border border-slate-200 rounded-xl p-4 hover:shadow-md transition-all"
               >
                 <div className="flex items-start gap-3">
-                  <div className="w-10 h-10 rounded-full bg-brand-100 flex items-center justify-center flex-shrink-0">
-                    <User className="w-5 h-5 text-brand-600" aria-hidden="true" />
-                  </div>
+                  <DoctorAvatar doctor={doctor} className="w-10 h-10" colorBySpecialization />
                   <div>
                     <h3 className="text-lg font-semibold text-slate-800 mb-1">
                       {doctor.name}
                     </h3>
-                    {doctor.specialization && (
-                      <span className="inline-block bg-brand-100 text-brand-600 px-2 py-0.5 rounded-md text-xs font-medium">
-                        {doctor.specialization}
-                      </span>
-                    )}
+                    {doctor.specialization && <SpecializationBadge specialization={doctor.specialization} />}
                   </div>
                 </div>
               </motion.div>
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { motion } from 'framer-motion'
+import { Navigate, useLocation, useNavigate } from 'react-router-dom'
+import type { Location } from 'react-router-dom'
+import { Lock } from 'lucide-react'
+import { useAuth } from '../hooks/useAuth'
+import { useTranslation } from '../hooks/useTranslation'
+import { useToast } from '../context/ToastContext'
+import { UnauthorizedError, ValidationError } from '../api/errors'
+import { translateError } from '../i18n/errors'
+import type { FieldErrors } from '../api/errors'
+
+/**
+ * AdminLogin - Sign-in screen for the admin dashboard
+ * Route: /admin/login
+ *
+ * Features:
+ * - Username and password form
+ * - Stores the session through AuthContext
+ * - Returns to the page that required sign-in (defaults to /admin)
+ */
+export default function AdminLogin() {
+  const { login, isAuthenticated } = useAuth()
+  const { showToast } = useToast()
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const location = useLocation()
+  const from = (location.state as { from?: Location } | null)?.from?.pathname ?? '/admin'
+
+  const [username, setUsername] = useState<string>('')
+  const [password, setPassword] = useState<string>('')
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError(null)
+    setFieldErrors({})
+
+    if (!username.trim() || !password) {
+      setError(t('adminLogin.required'))
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await login(username.trim(), password)
+      showToast(t('adminLogin.signedIn'), 'success')
+      navigate(from, { replace: true })
+    } catch (err) {
+      if (err instanceof UnauthorizedError) {
+        setError(t('adminLogin.invalid'))
+      } else {
+        if (err instanceof ValidationError) {
+          setFieldErrors(err.fieldErrors)
+        }
+        setError(translateError(t, err, t('adminLogin.failed')))
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Already signed in - nothing to do here
+  if (isAuthenticated) {
+    return <Navigate to={from} replace />
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-md mx-auto bg-white rounded-2xl shadow-lg p-6 mt-8 border border-slate-200"
+    >
+      {/* Header with Icon */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-full bg-brand-100 flex items-center justify-center">
+          <Lock className="w-5 h-5 text-brand-600" aria-hidden="true" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">{t('adminLogin.title')}</h1>
+          <p className="text-slate-500 text-sm">{t('adminLogin.subtitle')}</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        {/* Username input */}
+        <div className="mb-4">
+          <label htmlFor="admin-username" className="block text-sm font-medium text-slate-700 mb-1">
+            {t('adminLogin.username')}
+          </label>
+          <input
+            type="text"
+            id="admin-username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+            disabled={isSubmitting}
+            aria-invalid={Boolean(fieldErrors.username)}
+            aria-describedby={fieldErrors.username ? 'admin-username-error' : undefined}
+            className={`w-full rounded-lg border ${fieldErrors.username ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+          />
+          {fieldErrors.username && (
+            <p id="admin-username-error" className="mt-1 text-xs text-red-700">{fieldErrors.username}</p>
+          )}
+        </div>
+
+        {/* Password input */}
+        <div className="mb-4">
+          <label htmlFor="admin-password" className="block text-sm font-medium text-slate-700 mb-1">
+            {t('adminLogin.password')}
+          </label>
+          <input
+            type="password"
+            id="admin-password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            disabled={isSubmitting}
+            aria-invalid={Boolean(fieldErrors.password)}
+            aria-describedby={fieldErrors.password ? 'admin-password-error' : undefined}
+            className={`w-full rounded-lg border ${fieldErrors.password ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+          />
+          {fieldErrors.password && (
+            <p id="admin-password-error" className="mt-1 text-xs text-red-700">{fieldErrors.password}</p>
+          )}
+        </div>
+
+        {/* Submit button */}
+        <motion.button
+          type="submit"
+          disabled={isSubmitting}
+          whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
+          whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
+          className="w-full mt-2 rounded-lg bg-brand-500 hover:bg-brand-600 text-white shadow-md px-4 py-2.5 text-sm font-medium disabled:bg-slate-400 disabled:cursor-not-allowed transition-all hover:shadow-lg"
+        >
+          {isSubmitting ? t('adminLogin.submitting') : t('adminLogin.submit')}
+        </motion.button>
+      </form>
+
+      {/* Error message */}
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-4 bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-3 py-2"
+        >
+          {error}
+        </motion.div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Link, useParams } from 'react-router-dom'
+import { Calendar, Clock, Download, FileText, User, RefreshCw, CalendarClock } from 'lucide-react'
+import BookingStatusBadge from '../components/BookingStatusBadge'
+import { useAppContext } from '../context/AppContext'
+import { useLatestRequest } from '../hooks/useLatestRequest'
+import { useTranslation } from '../hooks/useTranslation'
+import { downloadICS } from '../utils/calendar'
+import { isActiveBookingStatus } from '../utils/bookingStatus'
+import { getSavedBookings } from '../utils/bookingHistory'
+import { formatDate, formatDuration, formatTime } from '../utils/datetime'
+import { getSpecializationStyle } from '../utils/specializations'
+import LocalTimeHint from '../components/LocalTimeHint'
+
+/**
+ * BookingDetailsPage - Look up a booking by its ID
+ * Route: /bookings/:bookingId
+ *
+ * Features:
+ * - Fetches the booking from GET /bookings/:id (cached in the entity store)
+ *   with the manage token, when this device saved one
+ * - Shows the slot and doctor details with a status badge
+ * - Calendar (.ics) download
+ * - Link to cancel or reschedule while the booking is active
+ */
+export default function BookingDetailsPage() {
+  const { bookingId } = useParams<{ bookingId: string }>()
+  const id = Number(bookingId)
+  const isValidId = Number.isInteger(id) && id > 0
+  const { getBooking, getBookingQuery, getSlot, getDoctor, loadBooking } = useAppContext()
+  const { start: startBookingRequest } = useLatestRequest()
+  const { t } = useTranslation()
+  const [manageToken] = useState<string | undefined>(
+    () => getSavedBookings().find((entry) => entry.id === id)?.manageToken
+  )
+
+  const booking = isValidId ? getBooking(id) : undefined
+  const query = isValidId ? getBookingQuery(id) : undefined
+  const slot = booking ? getSlot(booking.slot_id) : undefined
+  const doctor = slot ? getDoctor(slot.doctor_id) : undefined
+
+  // Always revalidate on open - the status may have changed since it was cached
+  useEffect(() => {
+    if (!isValidId) return
+    void loadBooking(id, { manageToken, signal: startBookingRequest(), force: true })
+  }, [id, isValidId, manageToken, loadBooking, startBookingRequest])
+
+  const errorMessage = !isValidId
+    ? t('bookingView.invalidLink')
+    : query?.status === 'error'
+    ? query.error
+    : null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-xl mx-auto bg-white rounded-2xl shadow-lg p-6 mt-8 border border-slate-200"
+    >
+      {/* Header with Icon */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-full bg-brand-100 flex items-center justify-center">
+          <FileText className="w-5 h-5 text-brand-600" aria-hidden="true" />
+        </div>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-slate-800">{t('bookingDetails.title')}</h1>
+          <p className="text-slate-500 text-sm">
+            {isValidId ? t('bookingView.reference', { id: String(id) }) : t('bookingView.lookup')}
+          </p>
+        </div>
+        {booking && <BookingStatusBadge status={booking.status} />}
+      </div>
+
+      {/* Loading state - only when nothing is cached yet */}
+      {!booking && !errorMessage && (
+        <div className="space-y-3" aria-busy="true">
+          <div className="h-20 rounded-xl bg-slate-100 animate-pulse"></div>
+          <div className="h-12 rounded-xl bg-slate-100 animate-pulse"></div>
+        </div>
+      )}
+
+      {/* Error message */}
+      {errorMessage && (
+        <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-3 py-2">
+          {errorMessage}
+          {isValidId && (
+            <button
+              type="button"
+              onClick={() => void loadBooking(id, { manageToken, signal: startBookingRequest(), force: true })}
+              className="flex items-center gap-1.5 mt-2 font-semibold text-red-900 underline hover:no-underline"
+            >
+              <RefreshCw className="w-3.5 h-3.5" aria-hidden="true" />
+              {t('common.tryAgain')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {booking && (
+        <>
+          {/* Appointment details */}
+          <div className="bg-gradient-to-r from-brand-50 to-slate-50 border border-slate-200 rounded-xl p-4 mb-4 space-y-3">
+            {doctor && (
+              <div className="pb-3 border-b border-slate-200">
+                <p className="font-semibold text-slate-800">{doctor.name}</p>
+                {doctor.specialization && (
+                  <p className="text-sm text-slate-600">{getSpecializationStyle(doctor.specialization).name}</p>
+                )}
+              </div>
+            )}
+            {slot ? (
+              <>
+                <div className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4 text-brand-600" aria-hidden="true" />
+                  <span className="text-sm text-slate-700">{formatDate(slot.start_time)}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-brand-600" aria-hidden="true" />
+                  <span className="text-sm font-semibold text-slate-800">{formatTime(slot.start_time)}</span>
+                  <span className="text-sm text-slate-600">({formatDuration(slot.duration_minutes, 'short')})</span>
+                  <LocalTimeHint value={slot.start_time} />
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-slate-600">{t('bookingView.slot', { id: String(booking.slot_id) })}</p>
+            )}
+          </div>
+
+          {/* Patient details */}
+          <div className="space-y-1 text-sm text-slate-700 mb-6">
+            <p className="flex items-center gap-2">
+              <User className="w-4 h-4 text-slate-400" aria-hidden="true" />
+              <span className="font-medium">{booking.patient_name}</span>
+            </p>
+            {booking.patient_email && <p className="pl-6 text-slate-600">{booking.patient_email}</p>}
+          </div>
+
+          {/* Action buttons */}
+          <div className="space-y-2">
+            <motion.button
+              type="button"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => downloadICS(t, booking, slot, doctor)}
+              disabled={!isActiveBookingStatus(booking.status)}
+              className="w-full flex items-center justify-center gap-2 rounded-xl bg-brand-500 hover:bg-brand-600 text-white shadow-lg px-4 py-3 text-sm font-semibold transition-all disabled:bg-slate-400 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" aria-hidden="true" />
+              {t('bookingView.addToCalendar')}
+            </motion.button>
+            {isActiveBookingStatus(booking.status) && (
+              <Link
+                to={`/bookings/${booking.id}/manage`}
+                className="w-full flex items-center justify-center gap-2 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-3 text-sm font-medium transition-all"
+              >
+                <CalendarClock className="w-4 h-4" aria-hidden="true" />
+                {t('bookingDetails.manage')}
+              </Link>
+            )}
+          </div>
+        </>
+      )}
+
+      <Link
+        to="/"
+        className="block mt-4 text-center text-sm font-medium text-brand-700 hover:text-brand-800"
+      >
+        {t('common.backToHome')}
+      </Link>
+    </motion.div>
+  )
+}
@@ -1,13 +1,26 @@
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import type { FormEvent } from 'react'
 import { motion } from 'framer-motion'
-import { useParams, useLocation, useNavigate } from 'react-router-dom'
+import { Link, useParams, useLocation, useNavigate } from 'react-router-dom'
 import { Calendar, Clock, CheckCircle2, XCircle, AlertCircle } from 'lucide-react'
-import { bookAppointment } from '../api/medreserveApi'
-import type { AppointmentSlot, Booking } from '../types'
+import { createIdempotencyKey } from '../api/medreserveApi'
+import { NotFoundError, SlotConflictError, ValidationError } from '../api/errors'
+import { translateError } from '../i18n/errors'
+import type { FieldErrors } from '../api/errors'
+import type { AppointmentSlot, Booking, BookingStatus } from '../types'
 import BookingTicket from '../components/BookingTicket'
 import { useToast } from '../context/ToastContext'
 import { useAppContext } from '../context/AppContext'
+import { useBookingStatus } from '../hooks/useBookingStatus'
+import { useLatestRequest } from '../hooks/useLatestRequest'
+import { useTranslation } from '../hooks/useTranslation'
+import { BOOKING_STATUS_STYLES } from '../utils/bookingStatus'
+import { rememberBooking } from '../utils/bookingHistory'
+import { formatDate, formatDuration, formatTime } from '../utils/datetime'
+import { getSlotAvailability } from '../utils/slotAvailability'
+import { getSpecializationStyle } from '../utils/specializations'
+import LocalTimeHint from '../components/LocalTimeHint'
+import LiveRegion from '../components/LiveRegion'
 
 /**
  * BookingPage - Booking flow for a specific appointment slot
@@ -15,38 +28,111 @@ import { useAppContext } from '../context/AppContext'
  * 
  * Features:
  * - Reads slotId from URL params
- * - Reads slot data from navigation state (if available)
+ * - Uses slot data from navigation state when available and looks the slot up
+ *   by ID otherwise, so the page works when opened from a link or refreshed
+ * - Blocks booking of slots that don't exist, have passed or are already booked
  * - Form to collect patient name and email
  * - Submits booking request to API
- * - Displays booking confirmation or error status
+ * - Tracks a PENDING booking with an expiry countdown
+ * - Shows the ticket only once the booking is CONFIRMED
+ * - Announces status changes and errors to screen readers
  */
 export default function BookingPage() {
   const { slotId } = useParams<{ slotId: string }>()
   const location = useLocation()
   const navigate = useNavigate()
   const { showToast } = useToast()
-  const { doctors } = useAppContext()
-  const slot = (location.state as { slot?: AppointmentSlot })?.slot
-  const doctor = slot ? doctors.find((d) => d.id === slot.doctor_id) : undefined
+  const { t, tRich } = useTranslation()
+  const { getSlot, getSlotQuery, loadSlot, getDoctor, loadingDoctors, bookSlot } = useAppContext()
+  const { start: startSlotRequest } = useLatestRequest()
+  const slotNumber = Number(slotId)
+  const isValidSlotId = Number.isInteger(slotNumber) && slotNumber > 0
+  // Prefer the looked-up slot (its availability is fresh), then navigation state
+  const slot =
+    (isValidSlotId ? getSlot(slotNumber) : undefined) ??
+    (location.state as { slot?: AppointmentSlot } | null)?.slot
+  const slotQuery = getSlotQuery(slotNumber)
+  const doctor = slot ? getDoctor(slot.doctor_id) : undefined
+  const [openedAt] = useState<number>(() => Date.now())
 
   // Form state
   const [name, setName] = useState<string>('')
   const [email, setEmail] = useState<string>('')
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
+  // Retry attempt currently in progress (0 while on the first attempt)
+  const [retryAttempt, setRetryAttempt] = useState<number>(0)
+  // One idempotency key per form session: every retry and resubmission reuses it,
+  // so a double click or a retried POST can never create a second booking
+  const [idempotencyKey, setIdempotencyKey] = useState<string>(() => createIdempotencyKey())
   const [error, setError] = useState<string | null>(null)
-  const [booking, setBooking] = useState<Booking | null>(null)
-  const [showSuccessModal, setShowSuccessModal] = useState<boolean>(false)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  const [slotTaken, setSlotTaken] = useState<boolean>(false)
+  const [submittedBooking, setSubmittedBooking] = useState<Booking | null>(null)
+  const [ticketDismissed, setTicketDismissed] = useState<boolean>(false)
+
+  // Follow the booking in the store until it settles
+  const { booking: trackedBooking, secondsRemaining } = useBookingStatus(
+    submittedBooking?.id,
+    submittedBooking?.manage_token
+  )
+  const booking = trackedBooking ?? submittedBooking
+  const bookingStatus = booking?.status
+  const showSuccessModal = bookingStatus === 'CONFIRMED' && !ticketDismissed
+
+  // Look the slot up by ID - always, so a stale "available" slot is caught before submitting
+  useEffect(() => {
+    if (!isValidSlotId) return
+    void loadSlot(slotNumber, { signal: startSlotRequest() })
+  }, [isValidSlotId, slotNumber, loadSlot, startSlotRequest])
+
+  // Why this slot cannot be booked, if it can't
+  const availability = slot && !booking ? getSlotAvailability(slot, openedAt) : 'available'
+  let unavailableReason: string | null = null
+  if (!isValidSlotId) {
+    unavailableReason = t('booking.invalidLink')
+  } else if (!slot && slotQuery.status === 'error') {
+    unavailableReason = slotQuery.error
+  } else if (availability !== 'available') {
+    unavailableReason = t(`slotAvailability.reason.${availability}`)
+  }
+  const isLoadingSlot = isValidSlotId && !slot && !unavailableReason
+  const formLocked = isSubmitting || slotTaken || !slot || Boolean(unavailableReason)
+  // "Choose another slot" returns to this doctor's slots on the home page
+  const otherSlotsPath = slot ? `/?doctor=${slot.doctor_id}` : '/'
+
+  // Announce the outcome once a pending booking settles - once per status, so
+  // switching the language (a new t) does not repeat the toast
+  const toastedStatus = useRef<BookingStatus | undefined>(undefined)
+  useEffect(() => {
+    if (bookingStatus === toastedStatus.current) return
+    toastedStatus.current = bookingStatus
+    if (bookingStatus === 'CONFIRMED') {
+      showToast(t('booking.toast.confirmed'), 'success')
+    } else if (bookingStatus === 'FAILED') {
+      showToast(t('booking.toast.failed'), 'error')
+    }
+  }, [bookingStatus, showToast, t])
+
+  // Read out whenever the booking's status changes (the countdown is not announced)
+  let statusAnnouncement = ''
+  if (booking) {
+    statusAnnouncement = t('booking.announce.status', {
+      status: t(`bookingStatus.title.${booking.status}`),
+      id: String(booking.id),
+    })
+    if (booking.status === 'PENDING') {
+      statusAnnouncement += ` ${t('booking.pending')}`
+    } else if (booking.status === 'FAILED') {
+      statusAnnouncement += ` ${t('booking.announce.failed')}`
+    }
+  }
 
   /**
-   * Format time for display
+   * Format a countdown as m:ss
    */
-  const formatTime = (isoString: string): string => {
-    const date = new Date(isoString)
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    })
+  const formatCountdown = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60)
+    return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
   }
 
   /**
@@ -55,42 +141,70 @@ export default function BookingPage() {
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setError(null)
+    setFieldErrors({})
 
-    // Validate slotId is present
-    if (!slotId) {
-      setError('Invalid slot ID. Please select a slot from the home page.')
+    // Validate the slot can still be booked
+    if (unavailableReason || !slot) {
       return
     }
 
     // Validate name is required
     if (!name.trim()) {
-      setError('Name is required')
+      setError(t('common.nameRequired'))
       return
     }
 
+    // Ignore repeated submits while a booking is in flight
+    if (isSubmitting) return
+
     // Disable form and show loading state
     setIsSubmitting(true)
+    setRetryAttempt(0)
 
     try {
-      // Call booking API
-      const result = await bookAppointment(Number(slotId), {
-        name: name.trim(),
-        email: email.trim() || undefined,
-      })
+      // Book through the store so the doctor's slot list is refreshed
+      const result = await bookSlot(
+        Number(slotId),
+        {
+          name: name.trim(),
+          email: email.trim() || undefined,
+        },
+        {
+          idempotencyKey,
+          onRetry: (attempt) => setRetryAttempt(attempt),
+        }
+      )
 
-      // On success, set booking and clear error
-      setBooking(result)
+      // On success, start tracking the booking - the ticket waits for CONFIRMED
+      setSubmittedBooking(result)
+      rememberBooking(result.id, result.patient_email, result.manage_token)
       setError(null)
-      setShowSuccessModal(true)
-      showToast('Appointment booked successfully!', 'success')
+      if (result.status === 'PENDING') {
+        showToast(t('booking.toast.pending'), 'info')
+      }
     } catch (err) {
-      // On failure, show error message
-      const errorMessage = err instanceof Error ? err.message : 'Failed to book appointment'
+      // On failure, branch on the error kind to show a helpful message
+      let errorMessage: string
+      if (err instanceof SlotConflictError) {
+        errorMessage = t('booking.error.slotTaken')
+        setSlotTaken(true)
+      } else if (err instanceof ValidationError) {
+        errorMessage = t('error.validation')
+        setFieldErrors(err.fieldErrors)
+        // Rejected outright, nothing was booked - the corrected form is a new request
+        setIdempotencyKey(createIdempotencyKey())
+      } else if (err instanceof NotFoundError) {
+        errorMessage = t('booking.error.slotGone')
+        setSlotTaken(true)
+      } else {
+        errorMessage = translateError(t, err, t('booking.error.failed'))
+      }
       setError(errorMessage)
-      setBooking(null)
+      setSubmittedBooking(null)
       showToast(errorMessage, 'error')
     } finally {
       setIsSubmitting(false)
+      setRetryAttempt(0)
     }
   }
 
@@ -100,6 +214,8 @@ export default function BookingPage() {
       animate={{ opacity: 1, y: 0 }}
       className="max-w-xl mx-auto bg-white rounded-2xl shadow-lg p-6 mt-8 border border-slate-200"
     >
+      <LiveRegion message={statusAnnouncement} />
+
       {/* Header with Icon */}
       <div className="flex items-center gap-3 mb-2">
         {/* Header icon - dark mode classes removed */}
@@ -108,11 +224,13 @@ export default function BookingPage() {
         </div>
         <div>
           {/* Page heading - dark mode classes removed */}
-          <h1 className="text-2xl font-bold text-slate-800">Book Appointment</h1>
+          <h1 className="text-2xl font-bold text-slate-800">{t('booking.title')}</h1>
           <p className="text-slate-500 text-sm">
             {slot
-              ? `Complete your booking for the selected time slot`
-              : `Booking slot #${slotId}`}
+              ? t('booking.subtitle.ready')
+              : isLoadingSlot
+              ? t('booking.subtitle.loading')
+              : t('booking.subtitle.slot', { id: slotId ?? '' })}
           </p>
         </div>
       </div>
@@ -127,18 +245,49 @@ export default function BookingPage() {
           <div className="flex items-center gap-2 mb-2">
             <Clock className="w-4 h-4 text-brand-600" aria-hidden="true" />
             <p className="text-sm font-medium text-slate-800">
-              Selected Time Slot
+              {t('booking.selectedSlot')}
             </p>
           </div>
           <p className="text-xl font-bold text-slate-900 mb-1">
             {formatTime(slot.start_time)}
           </p>
           <p className="text-sm text-slate-600">
-            Duration: {slot.duration_minutes} minutes
+            {formatDate(slot.start_time, 'short')} · {t('booking.duration', { duration: formatDuration(slot.duration_minutes) })}
           </p>
+          <LocalTimeHint value={slot.start_time} className="block text-xs text-slate-500 mt-1" />
+          {/* Doctor - from the doctors list, which may still be loading on a deep link */}
+          {doctor ? (
+            <p className="text-sm text-slate-800 mt-2">
+              <span className="font-medium">{doctor.name}</span>
+              {doctor.specialization && (
+                <span className="text-slate-600"> · {getSpecializationStyle(doctor.specialization).name}</span>
+              )}
+            </p>
+          ) : loadingDoctors ? (
+            <div className="h-4 w-40 mt-2 rounded bg-slate-200 animate-pulse"></div>
+          ) : null}
         </motion.div>
       )}
 
+      {/* Slot lookup in progress (deep link / refresh) */}
+      {isLoadingSlot && (
+        <div className="h-24 rounded-xl bg-slate-100 animate-pulse mb-6" aria-busy="true"></div>
+      )}
+
+      {/* Slot cannot be booked */}
+      {unavailableReason && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 text-yellow-900 text-sm rounded-lg px-3 py-2" role="alert">
+          {unavailableReason}
+          <button
+            type="button"
+            onClick={() => navigate(otherSlotsPath)}
+            className="block mt-2 font-semibold underline hover:no-underline"
+          >
+            {t('common.chooseAnotherSlot')}
+          </button>
+        </div>
+      )}
+
       {/* Booking form - only show if booking not yet confirmed */}
       {!booking && (
         <form onSubmit={handleSubmit}>
@@ -146,7 +295,7 @@ export default function BookingPage() {
           <div className="mb-4">
             {/* Form labels - dark mode classes removed */}
             <label htmlFor="name" className="block text-sm font-medium text-slate-700 mb-1">
-              Name <span className="text-red-500">*</span>
+              {t('common.name')} <span className="text-red-500">*</span>
             </label>
             <input
               type="text"
@@ -154,38 +303,59 @@ export default function BookingPage() {
               value={name}
               onChange={(e) => setName(e.target.value)}
               required
-              disabled={isSubmitting}
-              className="w-full rounded-lg border border-slate-200 bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors"
-              placeholder="Enter your full name"
+              disabled={formLocked}
+              aria-invalid={Boolean(fieldErrors.patient_name)}
+              aria-describedby={fieldErrors.patient_name ? 'name-error' : undefined}
+              className={`w-full rounded-lg border ${fieldErrors.patient_name ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+              placeholder={t('booking.namePlaceholder')}
             />
+            {fieldErrors.patient_name && (
+              <p id="name-error" className="mt-1 text-xs text-red-700">{fieldErrors.patient_name}</p>
+            )}
           </div>
 
           {/* Email input - dark mode classes removed */}
           <div className="mb-4">
             <label htmlFor="email" className="block text-sm font-medium text-slate-700 mb-1">
-              Email <span className="text-slate-400 text-xs">(optional)</span>
+              {t('booking.email')} <span className="text-slate-400 text-xs">{t('common.optional')}</span>
             </label>
             <input
               type="email"
               id="email"
               value={email}
               onChange={(e) => setEmail(e.target.value)}
-              disabled={isSubmitting}
-              className="w-full rounded-lg border border-slate-200 bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors"
-              placeholder="Enter your email address"
+              disabled={formLocked}
+              aria-invalid={Boolean(fieldErrors.patient_email)}
+              aria-describedby={fieldErrors.patient_email ? 'email-error' : undefined}
+              className={`w-full rounded-lg border ${fieldErrors.patient_email ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 disabled:cursor-not-allowed transition-colors`}
+              placeholder={t('booking.emailPlaceholder')}
             />
+            {fieldErrors.patient_email && (
+              <p id="email-error" className="mt-1 text-xs text-red-700">{fieldErrors.patient_email}</p>
+            )}
           </div>
 
           {/* Submit button */}
           <motion.button
             type="submit"
-            disabled={isSubmitting}
-            whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
-            whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
+            disabled={formLocked}
+            whileHover={{ scale: formLocked ? 1 : 1.02 }}
+            whileTap={{ scale: formLocked ? 1 : 0.98 }}
             className="w-full mt-4 rounded-lg bg-brand-500 hover:bg-brand-600 text-white shadow-md px-4 py-2.5 text-sm font-medium disabled:bg-slate-400 disabled:cursor-not-allowed transition-all hover:shadow-lg"
           >
-            {isSubmitting ? 'Booking...' : 'Confirm Booking'}
+            {isSubmitting
+              ? retryAttempt > 0
+                ? t('booking.retrying', { attempt: retryAttempt + 1 })
+                : t('booking.submitting')
+              : t('booking.submit')}
           </motion.button>
+
+          {/* Retry notice - connection trouble is retried automatically */}
+          {isSubmitting && retryAttempt > 0 && (
+            <p className="mt-2 text-xs text-center text-yellow-800" role="status">
+              {t('booking.retryNotice')}
+            </p>
+          )}
         </form>
       )}
 
@@ -194,9 +364,19 @@ export default function BookingPage() {
         <motion.div
           initial={{ opacity: 0, y: -10 }}
           animate={{ opacity: 1, y: 0 }}
+          role="alert"
           className="mt-4 bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-3 py-2"
         >
           {error}
+          {slotTaken && (
+            <button
+              type="button"
+              onClick={() => navigate(otherSlotsPath)}
+              className="block mt-2 font-semibold text-red-900 underline hover:no-underline"
+            >
+              {t('common.chooseAnotherSlot')}
+            </button>
+          )}
         </motion.div>
       )}
 
@@ -207,7 +387,7 @@ export default function BookingPage() {
           slot={slot}
           doctor={doctor}
           onClose={() => {
-            setShowSuccessModal(false)
+            setTicketDismissed(true)
             navigate('/')
           }}
         />
@@ -216,61 +396,78 @@ export default function BookingPage() {
       {/* Booking status card */}
       {booking && !showSuccessModal && (
         <div
-          className={`mt-4 rounded-xl px-4 py-4 text-sm animate-fadeIn ${
-            booking.status === 'CONFIRMED'
-              ? 'bg-green-50 border border-green-200 text-green-800'
-              : booking.status === 'FAILED'
-              ? 'bg-red-50 border border-red-200 text-red-800'
-              : 'bg-yellow-50 border border-yellow-200 text-yellow-800'
-          }`}
+          className={`mt-4 rounded-xl px-4 py-4 text-sm animate-fadeIn ${BOOKING_STATUS_STYLES[booking.status].card}`}
         >
           <div className="flex items-center gap-2 mb-3">
             {booking.status === 'CONFIRMED' && (
-              <CheckCircle2 className="w-5 h-5 text-green-600" aria-hidden="true" />
+              <CheckCircle2 className={`w-5 h-5 ${BOOKING_STATUS_STYLES.CONFIRMED.icon}`} aria-hidden="true" />
             )}
-            {booking.status === 'FAILED' && (
-              <XCircle className="w-5 h-5 text-red-600" aria-hidden="true" />
+            {(booking.status === 'FAILED' || booking.status === 'CANCELLED') && (
+              <XCircle className={`w-5 h-5 ${BOOKING_STATUS_STYLES[booking.status].icon}`} aria-hidden="true" />
             )}
             {booking.status === 'PENDING' && (
-              <AlertCircle className="w-5 h-5 text-yellow-600" aria-hidden="true" />
+              <AlertCircle className={`w-5 h-5 ${BOOKING_STATUS_STYLES.PENDING.icon}`} aria-hidden="true" />
             )}
-            <p className="font-semibold text-base">
-              {booking.status === 'CONFIRMED'
-                ? 'Booking Confirmed'
-                : booking.status === 'FAILED'
-                ? 'Booking Failed'
-                : 'Booking Pending'}
-            </p>
+            <p className="font-semibold text-base">{t(`bookingStatus.title.${booking.status}`)}</p>
           </div>
           <div className="space-y-1">
             <p>
-              <span className="font-medium">Booking ID:</span> #{booking.id}
+              <span className="font-medium">{t('booking.card.bookingId')}</span> #{booking.id}
             </p>
             <p>
-              <span className="font-medium">Status:</span>{' '}
+              <span className="font-medium">{t('booking.card.status')}</span>{' '}
               <span
-                className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${
-                  booking.status === 'CONFIRMED'
-                    ? 'bg-green-200 text-green-900'
-                    : booking.status === 'FAILED'
-                    ? 'bg-red-200 text-red-900'
-                    : 'bg-yellow-200 text-yellow-900'
-                }`}
+                className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${BOOKING_STATUS_STYLES[booking.status].badge}`}
               >
-                {booking.status}
+                {t(`bookingStatus.label.${booking.status}`)}
               </span>
             </p>
             {booking.patient_name && (
               <p>
-                <span className="font-medium">Patient:</span> {booking.patient_name}
+                <span className="font-medium">{t('booking.card.patient')}</span> {booking.patient_name}
               </p>
             )}
             {booking.patient_email && (
               <p>
-                <span className="font-medium">Email:</span> {booking.patient_email}
+                <span className="font-medium">{t('booking.card.email')}</span> {booking.patient_email}
               </p>
             )}
           </div>
+          {/* Pending - slot is held until expires_at */}
+          {booking.status === 'PENDING' && (
+            <p className="mt-3">
+              {t('booking.pending')}
+              {secondsRemaining !== null && secondsRemaining > 0 && (
+                <>
+                  {' '}
+                  {tRich('booking.held', {
+                    countdown: (
+                      <span className="font-semibold tabular-nums">{formatCountdown(secondsRemaining)}</span>
+                    ),
+                  })}
+                </>
+              )}
+              {secondsRemaining === 0 && ` ${t('booking.holdExpired')}`}
+            </p>
+          )}
+          {booking.status === 'FAILED' && (
+            <p className="mt-3">
+              {t('booking.failed')}{' '}
+              <button
+                type="button"
+                onClick={() => navigate('/')}
+                className="font-semibold underline hover:no-underline"
+              >
+                {t('common.chooseAnotherSlot')}
+              </button>
+            </p>
+          )}
+          <Link
+            to={`/bookings/${booking.id}`}
+            className="inline-block mt-3 font-semibold underline hover:no-underline"
+          >
+            {t('booking.viewDetails')}
+          </Link>
         </div>
       )}
     </motion.div>
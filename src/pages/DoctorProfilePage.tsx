@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Link, useParams } from 'react-router-dom'
+import { GraduationCap, Languages, MapPin, RefreshCw, ArrowRight } from 'lucide-react'
+import SlotList from '../components/SlotList'
+import SpecializationBadge from '../components/SpecializationBadge'
+import DoctorAvatar from '../components/DoctorAvatar'
+import { SlotListSkeleton } from '../components/LoadingSkeleton'
+import { useAppContext } from '../context/AppContext'
+import { useBookSlot } from '../hooks/useBookSlot'
+import { useLatestRequest } from '../hooks/useLatestRequest'
+import { useTranslation } from '../hooks/useTranslation'
+import { isSlotBookable } from '../utils/slotAvailability'
+
+// How many upcoming openings the profile lists
+const UPCOMING_SLOT_LIMIT = 6
+
+/**
+ * DoctorProfilePage - Public profile of a doctor
+ * Route: /doctors/:doctorId
+ *
+ * Features:
+ * - Fetches the profile from GET /doctors/:id (cached in the entity store)
+ * - Photo, bio, qualifications, languages spoken and clinic location
+ * - Next open slots, bookable straight from the page
+ * - Link to all of the doctor's slots on the home page
+ */
+export default function DoctorProfilePage() {
+  const { doctorId } = useParams<{ doctorId: string }>()
+  const id = Number(doctorId)
+  const isValidId = Number.isInteger(id) && id > 0
+  const { getDoctor, getDoctorQuery, loadDoctor, getSlotsForDoctor, getSlotsQuery, loadDoctorSlots } =
+    useAppContext()
+  const { start: startDoctorRequest } = useLatestRequest()
+  const { start: startSlotsRequest } = useLatestRequest()
+  const handleBookSlot = useBookSlot()
+  const { t } = useTranslation()
+  const [openedAt] = useState<number>(() => Date.now())
+
+  // The doctors list holds a summary; the profile request fills in the rest
+  const doctor = isValidId ? getDoctor(id) : undefined
+  const query = isValidId ? getDoctorQuery(id) : undefined
+  const slotsQuery = isValidId ? getSlotsQuery(id) : undefined
+  const upcomingSlots = isValidId
+    ? getSlotsForDoctor(id)
+        .filter((slot) => isSlotBookable(slot, openedAt))
+        .slice(0, UPCOMING_SLOT_LIMIT)
+    : []
+
+  useEffect(() => {
+    if (!isValidId) return
+    void loadDoctor(id, { signal: startDoctorRequest() })
+    void loadDoctorSlots(id, { signal: startSlotsRequest() })
+  }, [id, isValidId, loadDoctor, loadDoctorSlots, startDoctorRequest, startSlotsRequest])
+
+  const errorMessage = !isValidId
+    ? t('doctorProfile.invalidLink')
+    : !doctor && query?.status === 'error'
+    ? query.error
+    : null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-4xl mx-auto"
+    >
+      {/* Loading state - only when nothing is cached yet */}
+      {!doctor && !errorMessage && (
+        <div className="space-y-3" aria-busy="true">
+          <div className="h-40 rounded-2xl bg-slate-100 animate-pulse"></div>
+          <div className="h-24 rounded-2xl bg-slate-100 animate-pulse"></div>
+        </div>
+      )}
+
+      {/* Error message */}
+      {errorMessage && (
+        <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-3 py-2">
+          {errorMessage}
+          {isValidId && (
+            <button
+              type="button"
+              onClick={() => void loadDoctor(id, { signal: startDoctorRequest(), force: true })}
+              className="flex items-center gap-1.5 mt-2 font-semibold text-red-900 underline hover:no-underline"
+            >
+              <RefreshCw className="w-3.5 h-3.5" aria-hidden="true" />
+              {t('common.tryAgain')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {doctor && (
+        <>
+          {/* Profile card */}
+          <div className="bg-white rounded-2xl shadow-lg p-6 border border-slate-200 mb-8">
+            <div className="flex flex-col sm:flex-row gap-6">
+              <DoctorAvatar
+                doctor={doctor}
+                className="w-28 h-28 border-2 border-brand-500 ring-2 ring-brand-100 ring-offset-2 shadow-md"
+              />
+              <div className="flex-1 min-w-0">
+                <h1 className="text-3xl font-bold text-slate-900">{doctor.name}</h1>
+                {doctor.specialization && (
+                  <div className="mt-2">
+                    <SpecializationBadge specialization={doctor.specialization} />
+                  </div>
+                )}
+                {doctor.bio && <p className="text-slate-700 mt-4 leading-relaxed">{doctor.bio}</p>}
+
+                <dl className="mt-5 space-y-3 text-sm">
+                  {doctor.qualifications && (
+                    <div className="flex items-start gap-2">
+                      <GraduationCap className="w-4 h-4 mt-0.5 text-brand-600 flex-shrink-0" aria-hidden="true" />
+                      <dt className="sr-only">{t('doctorProfile.qualifications')}</dt>
+                      <dd className="text-slate-700">{doctor.qualifications.join(', ')}</dd>
+                    </div>
+                  )}
+                  {doctor.languages && (
+                    <div className="flex items-start gap-2">
+                      <Languages className="w-4 h-4 mt-0.5 text-brand-600 flex-shrink-0" aria-hidden="true" />
+                      <dt className="sr-only">{t('doctorProfile.languages')}</dt>
+                      <dd className="text-slate-700">
+                        {t('doctorProfile.speaks', { languages: doctor.languages.join(', ') })}
+                      </dd>
+                    </div>
+                  )}
+                  {doctor.clinic_location && (
+                    <div className="flex items-start gap-2">
+                      <MapPin className="w-4 h-4 mt-0.5 text-brand-600 flex-shrink-0" aria-hidden="true" />
+                      <dt className="sr-only">{t('doctorProfile.location')}</dt>
+                      <dd className="text-slate-700">{doctor.clinic_location}</dd>
+                    </div>
+                  )}
+                </dl>
+              </div>
+            </div>
+          </div>
+
+          {/* Upcoming availability */}
+          <div className="bg-white rounded-2xl shadow-lg p-6 border border-slate-200">
+            {slotsQuery?.status === 'error' ? (
+              <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-3 py-2">
+                {slotsQuery.error}
+              </div>
+            ) : slotsQuery?.updatedAt === null ? (
+              <SlotListSkeleton />
+            ) : (
+              <SlotList slots={upcomingSlots} onBook={handleBookSlot} />
+            )}
+            <Link
+              to={`/?doctor=${doctor.id}`}
+              className="mt-6 inline-flex items-center gap-1.5 text-sm font-medium text-brand-700 hover:text-brand-800"
+            >
+              {t('doctorProfile.allSlots', { name: doctor.name })}
+              <ArrowRight className="w-4 h-4" aria-hidden="true" />
+            </Link>
+          </div>
+        </>
+      )}
+    </motion.div>
+  )
+}
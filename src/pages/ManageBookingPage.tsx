@@ -0,0 +1,302 @@
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Link, useParams } from 'react-router-dom'
+import { CalendarClock, Calendar, Clock, Download, Ban, CheckCircle2 } from 'lucide-react'
+import BookingStatusBadge from '../components/BookingStatusBadge'
+import SlotList from '../components/SlotList'
+import { SlotListSkeleton } from '../components/LoadingSkeleton'
+import { useAppContext } from '../context/AppContext'
+import { useToast } from '../context/ToastContext'
+import { useLatestRequest } from '../hooks/useLatestRequest'
+import { useTranslation } from '../hooks/useTranslation'
+import { SlotConflictError } from '../api/errors'
+import { translateError } from '../i18n/errors'
+import { downloadICS } from '../utils/calendar'
+import { isActiveBookingStatus } from '../utils/bookingStatus'
+import { getSavedBookings } from '../utils/bookingHistory'
+import { formatDate, formatDuration, formatTime } from '../utils/datetime'
+import LocalTimeHint from '../components/LocalTimeHint'
+import type { AppointmentSlot } from '../types'
+
+/**
+ * ManageBookingPage - Cancel or reschedule an existing booking
+ * Route: /bookings/:bookingId/manage
+ *
+ * Features:
+ * - Reschedule to another slot with the same doctor (SlotList picker)
+ * - Cancel with a confirmation step
+ * - Updated calendar (.ics) file after either change
+ * - Changes need the booking's manage token, saved on the device that made
+ *   the booking
+ */
+export default function ManageBookingPage() {
+  const { bookingId } = useParams<{ bookingId: string }>()
+  const id = Number(bookingId)
+  const isValidId = Number.isInteger(id) && id > 0
+  const {
+    getBooking,
+    getBookingQuery,
+    getSlot,
+    getDoctor,
+    getSlotsForDoctor,
+    getSlotsQuery,
+    loadBooking,
+    loadDoctorSlots,
+    cancelBooking,
+    rescheduleBooking,
+  } = useAppContext()
+  const { showToast } = useToast()
+  const { t } = useTranslation()
+  const { start: startBookingRequest } = useLatestRequest()
+  const { start: startSlotsRequest } = useLatestRequest()
+
+  const [isWorking, setIsWorking] = useState<boolean>(false)
+  const [confirmingCancel, setConfirmingCancel] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+  // What the patient just did, for the confirmation message
+  const [lastChange, setLastChange] = useState<'rescheduled' | 'cancelled' | null>(null)
+  const [manageToken] = useState<string | undefined>(
+    () => getSavedBookings().find((entry) => entry.id === id)?.manageToken
+  )
+
+  const booking = isValidId ? getBooking(id) : undefined
+  const query = isValidId ? getBookingQuery(id) : undefined
+  const slot = booking ? getSlot(booking.slot_id) : undefined
+  const doctorId = slot?.doctor_id
+  const doctor = doctorId !== undefined ? getDoctor(doctorId) : undefined
+  const isActive = booking ? isActiveBookingStatus(booking.status) : false
+
+  // Other slots with the same doctor - SlotList hides the ones that cannot be booked
+  const alternativeSlots =
+    doctorId !== undefined
+      ? getSlotsForDoctor(doctorId).filter((candidate) => candidate.id !== booking?.slot_id)
+      : []
+  const slotsQuery = doctorId !== undefined ? getSlotsQuery(doctorId) : undefined
+
+  useEffect(() => {
+    if (!isValidId) return
+    void loadBooking(id, { manageToken, signal: startBookingRequest(), force: true })
+  }, [id, isValidId, manageToken, loadBooking, startBookingRequest])
+
+  useEffect(() => {
+    if (doctorId === undefined || !isActive || !manageToken) return
+    void loadDoctorSlots(doctorId, { signal: startSlotsRequest() })
+  }, [doctorId, isActive, manageToken, loadDoctorSlots, startSlotsRequest])
+
+  /**
+   * Move the booking to the chosen slot
+   */
+  const handleReschedule = async (newSlot: AppointmentSlot) => {
+    if (!booking || !manageToken || isWorking) return
+    setIsWorking(true)
+    setError(null)
+    try {
+      await rescheduleBooking(booking.id, newSlot.id, manageToken)
+      setLastChange('rescheduled')
+      showToast(t('manage.toast.rescheduled'), 'success')
+    } catch (err) {
+      const message =
+        err instanceof SlotConflictError
+          ? t('manage.error.slotTaken')
+          : translateError(t, err, t('manage.error.reschedule'))
+      setError(message)
+      showToast(message, 'error')
+      if (err instanceof SlotConflictError && doctorId !== undefined) {
+        void loadDoctorSlots(doctorId, { force: true })
+      }
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  /**
+   * Cancel the booking after the patient confirmed
+   */
+  const handleCancel = async () => {
+    if (!booking || !manageToken || isWorking) return
+    setIsWorking(true)
+    setError(null)
+    try {
+      await cancelBooking(booking.id, manageToken)
+      setLastChange('cancelled')
+      setConfirmingCancel(false)
+      showToast(t('manage.toast.cancelled'), 'success')
+    } catch (err) {
+      const message = translateError(t, err, t('manage.error.cancel'))
+      setError(message)
+      showToast(message, 'error')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const loadError = !isValidId
+    ? t('bookingView.invalidLink')
+    : query?.status === 'error' && !booking
+    ? query.error
+    : null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-3xl mx-auto bg-white rounded-2xl shadow-lg p-6 mt-8 border border-slate-200"
+    >
+      {/* Header with Icon */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-full bg-brand-100 flex items-center justify-center">
+          <CalendarClock className="w-5 h-5 text-brand-600" aria-hidden="true" />
+        </div>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-slate-800">{t('manage.title')}</h1>
+          <p className="text-slate-500 text-sm">
+            {isValidId ? t('bookingView.reference', { id: String(id) }) : t('bookingView.lookup')}
+          </p>
+        </div>
+        {booking && <BookingStatusBadge status={booking.status} />}
+      </div>
+
+      {/* Loading state */}
+      {!booking && !loadError && (
+        <div className="h-24 rounded-xl bg-slate-100 animate-pulse" aria-busy="true"></div>
+      )}
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-3 py-2">
+          {loadError}
+        </div>
+      )}
+
+      {booking && (
+        <>
+          {/* Current appointment */}
+          <div className="bg-gradient-to-r from-brand-50 to-slate-50 border border-slate-200 rounded-xl p-4 mb-4 space-y-2">
+            {doctor && <p className="font-semibold text-slate-800">{doctor.name}</p>}
+            {slot ? (
+              <>
+                <div className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4 text-brand-600" aria-hidden="true" />
+                  <span className="text-sm text-slate-700">{formatDate(slot.start_time, 'medium')}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-brand-600" aria-hidden="true" />
+                  <span className="text-sm font-semibold text-slate-800">{formatTime(slot.start_time)}</span>
+                  <span className="text-sm text-slate-600">({formatDuration(slot.duration_minutes, 'short')})</span>
+                  <LocalTimeHint value={slot.start_time} />
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-slate-600">{t('bookingView.slot', { id: String(booking.slot_id) })}</p>
+            )}
+          </div>
+
+          {/* Confirmation after a change, with the updated calendar file */}
+          {lastChange && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="mb-4 bg-green-50 border border-green-200 text-green-800 text-sm rounded-lg px-3 py-3"
+              role="status"
+            >
+              <p className="flex items-center gap-2 font-semibold">
+                <CheckCircle2 className="w-4 h-4" aria-hidden="true" />
+                {lastChange === 'rescheduled' ? t('manage.moved') : t('manage.cancelled')}
+              </p>
+              <button
+                type="button"
+                onClick={() => downloadICS(t, booking, slot, doctor)}
+                className="flex items-center gap-1.5 mt-2 font-semibold underline hover:no-underline"
+              >
+                <Download className="w-4 h-4" aria-hidden="true" />
+                {lastChange === 'rescheduled' ? t('manage.downloadUpdated') : t('manage.removeFromCalendar')}
+              </button>
+            </motion.div>
+          )}
+
+          {/* Error message */}
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-3 py-2" role="alert">
+              {error}
+            </div>
+          )}
+
+          {!isActive && !lastChange && (
+            <p className="text-sm text-slate-600 mb-4">
+              {t('manage.notChangeable', {
+                status: t(`bookingStatus.label.${booking.status}`).toLocaleLowerCase(),
+              })}
+            </p>
+          )}
+
+          {isActive && !manageToken && (
+            <p className="text-sm text-slate-600 mb-4">{t('manage.noToken')}</p>
+          )}
+
+          {isActive && manageToken && (
+            <>
+              {/* Reschedule */}
+              <div className="mb-6">
+                <p className="text-sm text-slate-600 mb-3">
+                  {doctor ? t('manage.pickTime', { name: doctor.name }) : t('manage.pickTimeSameDoctor')}
+                </p>
+                {slotsQuery?.status === 'error' ? (
+                  <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-3 py-2">
+                    {slotsQuery.error}
+                  </div>
+                ) : slotsQuery?.updatedAt === null ? (
+                  <SlotListSkeleton />
+                ) : (
+                  <SlotList slots={alternativeSlots} onBook={handleReschedule} actionLabel={t('manage.moveHere')} />
+                )}
+              </div>
+
+              {/* Cancel */}
+              <div className="border-t border-slate-200 pt-4">
+                {confirmingCancel ? (
+                  <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-3 text-sm text-red-800">
+                    <p className="font-semibold mb-2">{t('manage.confirmCancel')}</p>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={handleCancel}
+                        disabled={isWorking}
+                        className="rounded-lg bg-red-600 hover:bg-red-700 text-white px-4 py-2 font-medium disabled:bg-slate-400 disabled:cursor-not-allowed"
+                      >
+                        {isWorking ? t('manage.cancelling') : t('manage.yesCancel')}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmingCancel(false)}
+                        disabled={isWorking}
+                        className="rounded-lg bg-white border border-slate-200 text-slate-700 px-4 py-2 font-medium hover:bg-slate-50"
+                      >
+                        {t('manage.keep')}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setConfirmingCancel(true)}
+                    disabled={isWorking}
+                    className="flex items-center gap-2 text-sm font-medium text-red-700 hover:text-red-800"
+                  >
+                    <Ban className="w-4 h-4" aria-hidden="true" />
+                    {t('manage.cancel')}
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      <Link
+        to={isValidId ? `/bookings/${id}` : '/'}
+        className="block mt-6 text-center text-sm font-medium text-brand-700 hover:text-brand-800"
+      >
+        {isValidId ? t('manage.backToBooking') : t('common.backToHome')}
+      </Link>
+    </motion.div>
+  )
+}
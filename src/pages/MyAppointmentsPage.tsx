@@ -0,0 +1,335 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import { motion } from 'framer-motion'
+import { Link } from 'react-router-dom'
+import { CalendarDays, Clock, Download, Search, Trash2, ExternalLink, CalendarClock } from 'lucide-react'
+import BookingStatusBadge from '../components/BookingStatusBadge'
+import { useAppContext } from '../context/AppContext'
+import { useToast } from '../context/ToastContext'
+import { useTranslation } from '../hooks/useTranslation'
+import { NotFoundError, ValidationError } from '../api/errors'
+import { translateError } from '../i18n/errors'
+import type { FieldErrors } from '../api/errors'
+import { downloadICS } from '../utils/calendar'
+import { isActiveBookingStatus } from '../utils/bookingStatus'
+import { forgetBooking, getSavedBookings, rememberBooking } from '../utils/bookingHistory'
+import { formatDate, formatDuration, formatTime, getClinicDayKey } from '../utils/datetime'
+import type { SavedBooking } from '../utils/bookingHistory'
+import type { AppointmentSlot, Booking, Doctor } from '../types'
+
+interface AppointmentEntry {
+  saved: SavedBooking
+  booking?: Booking
+  slot?: AppointmentSlot
+  doctor?: Doctor
+  error: string | null
+}
+
+type DatedEntry = AppointmentEntry & { slot: AppointmentSlot }
+
+interface DateGroup {
+  key: string
+  label: string
+  entries: DatedEntry[]
+}
+
+/**
+ * Group entries by the calendar day of their slot, in start-time order
+ */
+function groupByDate(entries: DatedEntry[], descending: boolean): DateGroup[] {
+  const sorted = [...entries].sort((a, b) => {
+    const difference = Date.parse(a.slot.start_time) - Date.parse(b.slot.start_time)
+    return descending ? -difference : difference
+  })
+  const groups: DateGroup[] = []
+  for (const entry of sorted) {
+    const key = getClinicDayKey(entry.slot.start_time)
+    const last = groups[groups.length - 1]
+    if (last?.key === key) {
+      last.entries.push(entry)
+    } else {
+      groups.push({
+        key,
+        label: formatDate(entry.slot.start_time),
+        entries: [entry],
+      })
+    }
+  }
+  return groups
+}
+
+/**
+ * MyAppointmentsPage - Bookings for returning patients
+ * Route: /my-appointments
+ *
+ * Features:
+ * - Lists bookings made or looked up on this device (localStorage)
+ * - Finds other bookings by reference plus email
+ * - Upcoming and past sections, grouped by date, with status badges
+ * - Links to view, manage or re-download each booking
+ */
+export default function MyAppointmentsPage() {
+  const { getBooking, getBookingQuery, getSlot, getDoctor, loadBooking, lookupBooking } = useAppContext()
+  const { showToast } = useToast()
+  const { t } = useTranslation()
+
+  const [saved, setSaved] = useState<SavedBooking[]>(() => getSavedBookings())
+  const [now] = useState<number>(() => Date.now())
+
+  // Lookup form state
+  const [reference, setReference] = useState<string>('')
+  const [email, setEmail] = useState<string>('')
+  const [isSearching, setIsSearching] = useState<boolean>(false)
+  const [lookupError, setLookupError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+
+  // Refresh every saved booking (cached ones are revalidated when stale)
+  useEffect(() => {
+    const controller = new AbortController()
+    for (const entry of saved) {
+      void loadBooking(entry.id, { manageToken: entry.manageToken, signal: controller.signal })
+    }
+    return () => controller.abort()
+  }, [saved, loadBooking])
+
+  const entries: AppointmentEntry[] = saved.map((entry) => {
+    const booking = getBooking(entry.id)
+    const slot = booking ? getSlot(booking.slot_id) : undefined
+    const query = getBookingQuery(entry.id)
+    return {
+      saved: entry,
+      booking,
+      slot,
+      doctor: slot ? getDoctor(slot.doctor_id) : undefined,
+      error: query.status === 'error' ? query.error : null,
+    }
+  })
+  // Entries without slot details are listed separately under "Date unavailable"
+  const withDate = entries.filter((entry): entry is DatedEntry => entry.slot !== undefined)
+  const upcoming = groupByDate(
+    withDate.filter((entry) => Date.parse(entry.slot.start_time) >= now),
+    false
+  )
+  const past = groupByDate(
+    withDate.filter((entry) => Date.parse(entry.slot.start_time) < now),
+    true
+  )
+  const undated = entries.filter((entry) => !entry.slot)
+
+  /**
+   * Look up a booking by reference and email
+   */
+  const handleLookup = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLookupError(null)
+    setFieldErrors({})
+
+    // Accept "42" as well as "#42"
+    const bookingId = Number(reference.trim().replace(/^#/, ''))
+    if (!Number.isInteger(bookingId) || bookingId <= 0) {
+      setFieldErrors({ booking_id: t('myAppointments.error.reference') })
+      return
+    }
+    if (!email.trim()) {
+      setFieldErrors({ email: t('myAppointments.error.email') })
+      return
+    }
+
+    setIsSearching(true)
+    try {
+      const booking = await lookupBooking(bookingId, email.trim())
+      setSaved(rememberBooking(booking.id, booking.patient_email))
+      setReference('')
+      showToast(t('myAppointments.found', { id: String(booking.id) }), 'success')
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        setFieldErrors(err.fieldErrors)
+      }
+      setLookupError(
+        err instanceof NotFoundError
+          ? t('myAppointments.error.notFound')
+          : translateError(t, err, t('myAppointments.error.failed'))
+      )
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const renderEntry = (entry: AppointmentEntry) => {
+    const { booking, slot, doctor, saved: savedEntry } = entry
+    return (
+      <li
+        key={savedEntry.id}
+        className="bg-white rounded-xl border border-slate-200 p-4 flex flex-col sm:flex-row sm:items-center gap-3 shadow-sm"
+      >
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <p className="font-semibold text-slate-800">
+              {t('bookingView.reference', { id: String(savedEntry.id) })}
+            </p>
+            {booking && <BookingStatusBadge status={booking.status} />}
+          </div>
+          {slot && (
+            <p className="flex items-center gap-1.5 text-sm text-slate-600">
+              <Clock className="w-4 h-4 text-brand-600" aria-hidden="true" />
+              {formatTime(slot.start_time)} · {formatDuration(slot.duration_minutes, 'short')}
+              {doctor && <span className="text-slate-800"> · {doctor.name}</span>}
+            </p>
+          )}
+          {!booking && !entry.error && <p className="text-sm text-slate-500">{t('myAppointments.loading')}</p>}
+          {entry.error && <p className="text-sm text-red-700">{entry.error}</p>}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {booking && (
+            <Link
+              to={`/bookings/${booking.id}`}
+              className="flex items-center gap-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700 px-3 py-1.5 text-sm font-medium"
+            >
+              <ExternalLink className="w-4 h-4" aria-hidden="true" />
+              {t('myAppointments.view')}
+            </Link>
+          )}
+          {booking && isActiveBookingStatus(booking.status) && (
+            <>
+              <Link
+                to={`/bookings/${booking.id}/manage`}
+                className="flex items-center gap-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700 px-3 py-1.5 text-sm font-medium"
+              >
+                <CalendarClock className="w-4 h-4" aria-hidden="true" />
+                {t('myAppointments.manage')}
+              </Link>
+              <button
+                type="button"
+                onClick={() => downloadICS(t, booking, slot, doctor)}
+                className="flex items-center gap-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700 px-3 py-1.5 text-sm font-medium"
+              >
+                <Download className="w-4 h-4" aria-hidden="true" />
+                {t('myAppointments.ticket')}
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => setSaved(forgetBooking(savedEntry.id))}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50"
+            aria-label={t('myAppointments.remove', { id: String(savedEntry.id) })}
+          >
+            <Trash2 className="w-4 h-4" aria-hidden="true" />
+          </button>
+        </div>
+      </li>
+    )
+  }
+
+  const renderGroups = (groups: DateGroup[]) =>
+    groups.map((group) => (
+      <div key={group.key} className="mb-4">
+        <h3 className="text-sm font-semibold text-slate-500 mb-2">{group.label}</h3>
+        <ul className="space-y-2">{group.entries.map(renderEntry)}</ul>
+      </div>
+    ))
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="max-w-3xl mx-auto mt-8">
+      {/* Header with Icon */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-full bg-brand-100 flex items-center justify-center">
+          <CalendarDays className="w-5 h-5 text-brand-600" aria-hidden="true" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">{t('myAppointments.title')}</h1>
+          <p className="text-slate-500 text-sm">{t('myAppointments.subtitle')}</p>
+        </div>
+      </div>
+
+      {/* Lookup form */}
+      <form
+        onSubmit={handleLookup}
+        className="bg-white rounded-2xl shadow-md border border-slate-200 p-4 mb-8 grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-3 sm:items-start"
+      >
+        <div>
+          <label htmlFor="lookup-reference" className="block text-sm font-medium text-slate-700 mb-1">
+            {t('myAppointments.reference')}
+          </label>
+          <input
+            type="text"
+            id="lookup-reference"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            disabled={isSearching}
+            placeholder="#42"
+            aria-invalid={Boolean(fieldErrors.booking_id)}
+            aria-describedby={fieldErrors.booking_id ? 'lookup-reference-error' : undefined}
+            className={`w-full rounded-lg border ${fieldErrors.booking_id ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 transition-colors`}
+          />
+          {fieldErrors.booking_id && (
+            <p id="lookup-reference-error" className="mt-1 text-xs text-red-700">{fieldErrors.booking_id}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="lookup-email" className="block text-sm font-medium text-slate-700 mb-1">
+            {t('myAppointments.email')}
+          </label>
+          <input
+            type="email"
+            id="lookup-email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={isSearching}
+            placeholder={t('myAppointments.emailPlaceholder')}
+            aria-invalid={Boolean(fieldErrors.email)}
+            aria-describedby={fieldErrors.email ? 'lookup-email-error' : undefined}
+            className={`w-full rounded-lg border ${fieldErrors.email ? 'border-red-400' : 'border-slate-200'} bg-white text-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 disabled:bg-slate-100 transition-colors`}
+          />
+          {fieldErrors.email && (
+            <p id="lookup-email-error" className="mt-1 text-xs text-red-700">{fieldErrors.email}</p>
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={isSearching}
+          className="sm:mt-6 flex items-center justify-center gap-2 rounded-lg bg-brand-500 hover:bg-brand-600 text-white shadow-md px-4 py-2 text-sm font-medium disabled:bg-slate-400 disabled:cursor-not-allowed transition-all"
+        >
+          <Search className="w-4 h-4" aria-hidden="true" />
+          {isSearching ? t('myAppointments.searching') : t('myAppointments.search')}
+        </button>
+        {lookupError && (
+          <p className="sm:col-span-3 bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-3 py-2" role="alert">
+            {lookupError}
+          </p>
+        )}
+      </form>
+
+      {saved.length === 0 ? (
+        <p className="text-center text-slate-500 italic text-sm py-8">
+          {t('myAppointments.empty')}
+        </p>
+      ) : (
+        <>
+          <section className="mb-8">
+            <h2 className="text-xl font-bold text-slate-900 mb-3">{t('myAppointments.upcoming')}</h2>
+            {upcoming.length > 0 ? (
+              renderGroups(upcoming)
+            ) : (
+              <p className="text-sm text-slate-500 italic">{t('myAppointments.noUpcoming')}</p>
+            )}
+          </section>
+
+          {past.length > 0 && (
+            <section className="mb-8">
+              <h2 className="text-xl font-bold text-slate-900 mb-3">{t('myAppointments.past')}</h2>
+              {renderGroups(past)}
+            </section>
+          )}
+
+          {undated.length > 0 && (
+            <section>
+              <h2 className="text-xl font-bold text-slate-900 mb-3">{t('myAppointments.undated')}</h2>
+              <ul className="space-y-2">{undated.map(renderEntry)}</ul>
+            </section>
+          )}
+        </>
+      )}
+    </motion.div>
+  )
+}
@@ -1,14 +1,19 @@
     import { useState, useMemo, useEffect } from 'react'
-    import { useNavigate } from 'react-router-dom'
+    import { Link, useSearchParams } from 'react-router-dom'
     import { motion } from 'framer-motion'
-    import { Search, Stethoscope, Calendar, Clock, ArrowRight, Filter } from 'lucide-react'
+    import { Search, Stethoscope, Calendar, CalendarDays, Clock, ArrowRight, Filter, LayoutGrid, ChevronRight } from 'lucide-react'
     import { useAppContext } from '../context/AppContext'
-    import { getDoctorSlots } from '../api/medreserveApi'
+    import { useLatestRequest } from '../hooks/useLatestRequest'
+    import { useBookSlot } from '../hooks/useBookSlot'
+    import { useTranslation } from '../hooks/useTranslation'
     import type { AppointmentSlot } from '../types'
     import DoctorList from '../components/DoctorList'
     import SlotList from '../components/SlotList'
+    import SlotCalendar from '../components/SlotCalendar'
+    import EarliestSlotFinder from '../components/EarliestSlotFinder'
     import { DoctorListSkeleton, SlotListSkeleton } from '../components/LoadingSkeleton'
-    import { checkHeroContrast } from '../utils/contrastCheck'
+    import { searchDoctors } from '../utils/doctorSearch'
+    import { canonicalSpecialization, uniqueSpecializations } from '../utils/specializations'
 
     /**
      * UserHome - Patient view for browsing doctors and available appointment slots
@@ -17,77 +22,104 @@
      * Features:
      * - Displays list of doctors
      * - Allows selection of a doctor to view their available slots
-     * - Shows available slots in a grid layout
+     * - Search, specialization and doctor live in the URL (?q=&specialization=&doctor=),
+     *   so links can be shared and back/forward restores earlier selections
+     * - Shows available slots as a card grid or a week/month calendar
+     * - "Find earliest slot" mode ranks openings across all matching doctors
      * - Handles booking navigation
      */
     export default function UserHome() {
-    const { doctors, loadingDoctors, errorDoctors } = useAppContext()
-    const [selectedDoctorId, setSelectedDoctorId] = useState<number | undefined>()
-    const [slots, setSlots] = useState<AppointmentSlot[]>([])
-    const [loadingSlots, setLoadingSlots] = useState<boolean>(false)
-    const [searchQuery, setSearchQuery] = useState<string>('')
-    const [selectedSpecialization, setSelectedSpecialization] = useState<string>('')
-    const navigate = useNavigate()
+    const {
+      doctors,
+      loadingDoctors,
+      errorDoctors,
+      loadDoctorSlots,
+      getSlotsForDoctor,
+      getSlotsQuery,
+    } = useAppContext()
+    const { t } = useTranslation()
+    const [searchParams, setSearchParams] = useSearchParams()
+    const searchQuery = searchParams.get('q') ?? ''
+    const selectedSpecialization = searchParams.get('specialization') ?? ''
+    const doctorParam = Number(searchParams.get('doctor'))
+    const selectedDoctorId = Number.isInteger(doctorParam) && doctorParam > 0 ? doctorParam : undefined
+    const [slotView, setSlotView] = useState<'grid' | 'calendar'>('grid')
+    const [mode, setMode] = useState<'browse' | 'earliest'>('browse')
+    const { start: startSlotsRequest } = useLatestRequest()
 
-    // Get unique specializations for filter dropdown
-    const specializations = useMemo(() => {
-      const specs = doctors
-        .map((d) => d.specialization)
-        .filter((s): s is string => Boolean(s))
-      return Array.from(new Set(specs)).sort()
-    }, [doctors])
+    /**
+     * Set or clear query params, keeping the others
+     * @param replace - update the current history entry instead of adding one
+     */
+    const updateSearchParams = (changes: Record<string, string | undefined>, replace = false) => {
+        setSearchParams(
+            (current) => {
+                const next = new URLSearchParams(current)
+                for (const [key, value] of Object.entries(changes)) {
+                    if (value) {
+                        next.set(key, value)
+                    } else {
+                        next.delete(key)
+                    }
+                }
+                return next
+            },
+            { replace }
+        )
+    }
 
-    // Filter doctors based on search query and specialization
-    const filteredDoctors = useMemo(() => {
-      let filtered = doctors
+    // Canonical specializations for the filter dropdown - "cardiologist" and "Heart" are listed once as Cardiology
+    const specializations = useMemo(() => uniqueSpecializations(doctors.map((d) => d.specialization)), [doctors])
+    // Links may use any alias (?specialization=heart); the dropdown shows the canonical name
+    const selectedCanonical = selectedSpecialization
+      ? canonicalSpecialization(selectedSpecialization, specializations)
+      : ''
 
-      // Filter by search query
-      if (searchQuery.trim()) {
-        const query = searchQuery.toLowerCase()
-        filtered = filtered.filter(
-          (doctor) =>
-            doctor.name.toLowerCase().includes(query) ||
-            doctor.specialization?.toLowerCase().includes(query)
-        )
-      }
+    // Filter by specialization, then fuzzy-match and rank by the search query
+    const searchResults = useMemo(() => {
+      const inSpecialization = selectedCanonical
+        ? doctors.filter(
+            (doctor) =>
+              doctor.specialization &&
+              canonicalSpecialization(doctor.specialization, specializations) === selectedCanonical
+          )
+        : doctors
+      return searchDoctors(inSpecialization, searchQuery)
+    }, [doctors, searchQuery, selectedCanonical, specializations])
+    const filteredDoctors = useMemo(() => searchResults.map((result) => result.doctor), [searchResults])
+    const searchHighlights = useMemo(
+      () => new Map(searchResults.map((result) => [result.doctor.id, result.highlights])),
+      [searchResults]
+    )
 
-      // Filter by specialization
-      if (selectedSpecialization) {
-        filtered = filtered.filter(
-          (doctor) => doctor.specialization === selectedSpecialization
-        )
-      }
+    const selectedDoctor = selectedDoctorId ? doctors.find((doctor) => doctor.id === selectedDoctorId) : undefined
 
-      return filtered
-    }, [doctors, searchQuery, selectedSpecialization])
+    // Slots for the selected doctor come from the shared store, so slots created
+    // in the admin view or just booked elsewhere are reflected here
+    const slots: AppointmentSlot[] = selectedDoctorId ? getSlotsForDoctor(selectedDoctorId) : []
+    const slotsQuery = selectedDoctorId ? getSlotsQuery(selectedDoctorId) : undefined
+    // Cached slots are shown while they revalidate; the skeleton only covers the first load
+    const loadingSlots = slotsQuery?.status === 'loading' && slotsQuery.updatedAt === null
+    const slotsError = slotsQuery?.status === 'error' ? slotsQuery.error : null
 
-    /**
-     * Handle doctor selection and fetch their available slots
-     * Calls getDoctorSlots API and updates state accordingly
-     */
-    const handleSelectDoctor = async (doctorId: number) => {
-        setSelectedDoctorId(doctorId)
-        setLoadingSlots(true)
-        setSlots([]) // Clear previous slots
-        
-        try {
-        const availableSlots = await getDoctorSlots(doctorId)
-        setSlots(availableSlots)
-        } catch (error) {
-        console.error('Error fetching slots:', error)
-        setSlots([])
-        } finally {
-        setLoadingSlots(false)
-        }
-    }
+    // Load the selected doctor's slots whenever the URL selects one (click, link or back/forward).
+    // Selecting another doctor cancels the previous request, so a slow
+    // response for an earlier doctor is dropped.
+    useEffect(() => {
+        if (!selectedDoctorId) return
+        void loadDoctorSlots(selectedDoctorId, { signal: startSlotsRequest() })
+    }, [selectedDoctorId, loadDoctorSlots, startSlotsRequest])
 
     /**
-     * Handle booking a slot - navigate to booking page with slot ID and slot data
+     * Handle doctor selection - adds a history entry so Back returns to the previous doctor
      */
-    const handleBookSlot = (slot: AppointmentSlot) => {
-        navigate(`/booking/${slot.id}`, { state: { slot } })
+    const handleSelectDoctor = (doctorId: number) => {
+        updateSearchParams({ doctor: String(doctorId) })
     }
 
+    // Handle booking a slot - navigate to booking page with slot ID and slot data
+    const handleBookSlot = useBookSlot()
+
     /**
      * Handle "Book Now" CTA click - scrolls smoothly to the booking area
      */
@@ -98,11 +130,6 @@
         }
     }
 
-    // Check hero contrast on mount - dark mode removed, only check once
-    useEffect(() => {
-        checkHeroContrast()
-    }, [])
-
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -127,11 +154,11 @@
               <div>
                 {/* Main heading - dark mode classes removed, using light theme colors */}
                 <h1 className="text-3xl md:text-4xl font-extrabold mb-2 text-slate-900">
-                  Book Your Appointment
+                  {t('home.title')}
                 </h1>
                 {/* Subtext - dark mode classes removed */}
                 <p className="text-slate-600 text-base">
-                  Find the right doctor and schedule your visit
+                  {t('home.subtitle')}
                 </p>
               </div>
             </div>
@@ -147,8 +174,8 @@
                   <Calendar className="w-5 h-5 text-brand-600" aria-hidden="true" />
                 </div>
                 <div>
-                  <p className="text-sm font-semibold text-slate-900">Easy Booking</p>
-                  <p className="text-xs text-slate-600">Quick & Simple</p>
+                  <p className="text-sm font-semibold text-slate-900">{t('home.feature.booking.title')}</p>
+                  <p className="text-xs text-slate-600">{t('home.feature.booking.text')}</p>
                 </div>
               </motion.div>
               <motion.div
@@ -159,8 +186,8 @@
                   <Clock className="w-5 h-5 text-brand-600" aria-hidden="true" />
                 </div>
                 <div>
-                  <p className="text-sm font-semibold text-slate-900">Flexible Times</p>
-                  <p className="text-xs text-slate-600">Choose Your Slot</p>
+                  <p className="text-sm font-semibold text-slate-900">{t('home.feature.times.title')}</p>
+                  <p className="text-xs text-slate-600">{t('home.feature.times.text')}</p>
                 </div>
               </motion.div>
               <motion.div
@@ -171,8 +198,8 @@
                   <Stethoscope className="w-5 h-5 text-brand-600" aria-hidden="true" />
                 </div>
                 <div>
-                  <p className="text-sm font-semibold text-slate-900">Expert Doctors</p>
-                  <p className="text-xs text-slate-600">Trusted Care</p>
+                  <p className="text-sm font-semibold text-slate-900">{t('home.feature.doctors.title')}</p>
+                  <p className="text-xs text-slate-600">{t('home.feature.doctors.text')}</p>
                 </div>
               </motion.div>
             </div>
@@ -182,17 +209,55 @@
           <div className="hidden md:flex items-center">
             <button
               onClick={handleBookNowClick}
-              aria-label="Book now - scroll to booking area"
+              aria-label={t('home.bookNowLabel')}
               className="bg-brand-600 hover:bg-brand-700 text-white px-5 py-2.5 rounded-xl shadow-md focus:ring-2 focus:ring-brand-100 focus:outline-none transition-all hover:shadow-lg active:scale-95 flex items-center gap-2 font-semibold"
             >
-              Book Now
-              <ArrowRight className="w-4 h-4" aria-hidden="true" />
+              {t('home.bookNow')}
+              <ArrowRight className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
             </button>
           </div>
         </div>
       </motion.div>
 
+      {/* Mode switch: browse doctors or search across them */}
+      <div className="inline-flex rounded-xl border border-slate-200 bg-white p-1 mb-6 shadow-sm" role="group" aria-label={t('home.mode.label')}>
+        <button
+          type="button"
+          onClick={() => setMode('browse')}
+          aria-pressed={mode === 'browse'}
+          className={`flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            mode === 'browse' ? 'bg-brand-500 text-white' : 'text-slate-600 hover:bg-slate-50'
+          }`}
+        >
+          <Stethoscope className="w-4 h-4" aria-hidden="true" />
+          {t('home.mode.browse')}
+        </button>
+        <button
+          type="button"
+          onClick={() => setMode('earliest')}
+          aria-pressed={mode === 'earliest'}
+          className={`flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            mode === 'earliest' ? 'bg-brand-500 text-white' : 'text-slate-600 hover:bg-slate-50'
+          }`}
+        >
+          <Clock className="w-4 h-4" aria-hidden="true" />
+          {t('home.mode.earliest')}
+        </button>
+      </div>
+
+      {/* Earliest slot search across doctors */}
+      {mode === 'earliest' && !errorDoctors && (
+        <div id="booking-area">
+          {loadingDoctors ? (
+            <SlotListSkeleton />
+          ) : (
+            <EarliestSlotFinder doctors={doctors} specializations={specializations} onBook={handleBookSlot} />
+          )}
+        </div>
+      )}
+
       {/* Search and Filter Bar */}
+      {mode === 'browse' && (
       <motion.div
         initial={{ opacity: 0, y: 10 }}
         animate={{ opacity: 1, y: 0 }}
@@ -201,25 +266,25 @@
       >
         <div className="relative">
           {/* Search bar - dark mode classes removed */}
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
+          <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
           <input
             type="text"
-            placeholder="Search doctors by name or specialization..."
+            placeholder={t('home.searchPlaceholder')}
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 transition-colors"
+            onChange={(e) => updateSearchParams({ q: e.target.value }, true)}
+            className="w-full ps-10 pe-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 transition-colors"
           />
         </div>
         {specializations.length > 0 && (
           <div className="relative">
             {/* Filter dropdown - dark mode classes removed */}
-            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
+            <Filter className="absolute start-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
             <select
-              value={selectedSpecialization}
-              onChange={(e) => setSelectedSpecialization(e.target.value)}
-              className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 transition-colors appearance-none cursor-pointer"
+              value={selectedCanonical}
+              onChange={(e) => updateSearchParams({ specialization: e.target.value })}
+              className="w-full ps-10 pe-4 py-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-100 focus:border-brand-500 transition-colors appearance-none cursor-pointer"
             >
-              <option value="">All Specializations</option>
+              <option value="">{t('home.allSpecializations')}</option>
               {specializations.map((spec) => (
                 <option key={spec} value={spec}>
                   {spec}
@@ -229,6 +294,7 @@
           </div>
         )}
       </motion.div>
+      )}
 
       {/* Error state for doctors */}
       {errorDoctors && (
@@ -237,12 +303,12 @@
           animate={{ opacity: 1 }}
           className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6"
         >
-          <p className="text-red-800">Error: {errorDoctors}</p>
+          <p className="text-red-800">{t('common.error', { message: errorDoctors })}</p>
         </motion.div>
       )}
 
       {/* Main content grid layout */}
-      {!errorDoctors && (
+      {mode === 'browse' && !errorDoctors && (
         <div id="booking-area" className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {/* Left column: Doctor List (1 column) */}
           <div className="md:col-span-1">
@@ -251,6 +317,7 @@
             ) : (
               <DoctorList
                 doctors={filteredDoctors}
+                highlights={searchHighlights}
                 selectedDoctorId={selectedDoctorId}
                 onSelectDoctor={handleSelectDoctor}
                 searchQuery={searchQuery}
@@ -268,13 +335,62 @@
               >
                 <Calendar className="w-12 h-12 text-slate-300 mx-auto mb-3" />
                 <p className="text-slate-500 font-medium">
-                  Select a doctor to view available appointment slots
+                  {t('home.selectDoctorPrompt')}
                 </p>
               </motion.div>
             ) : loadingSlots ? (
               <SlotListSkeleton />
+            ) : slotsError ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-red-800">{t('common.error', { message: slotsError })}</p>
+              </div>
             ) : (
-              <SlotList slots={slots} onBook={handleBookSlot} />
+              <>
+                {/* Profile link (also the keyboard route to it) and grid / calendar toggle */}
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  {selectedDoctor ? (
+                    <Link
+                      to={`/doctors/${selectedDoctor.id}`}
+                      className="flex items-center gap-1 text-sm font-medium text-brand-700 hover:text-brand-800 hover:underline"
+                    >
+                      {t('home.viewProfile', { name: selectedDoctor.name })}
+                      <ChevronRight className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+                    </Link>
+                  ) : (
+                    <span />
+                  )}
+                  <div className="inline-flex rounded-lg border border-slate-200 bg-white p-0.5" role="group" aria-label={t('home.slotView.label')}>
+                    <button
+                      type="button"
+                      onClick={() => setSlotView('grid')}
+                      aria-pressed={slotView === 'grid'}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                        slotView === 'grid' ? 'bg-brand-500 text-white' : 'text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      <LayoutGrid className="w-4 h-4" aria-hidden="true" />
+                      {t('home.slotView.cards')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSlotView('calendar')}
+                      aria-pressed={slotView === 'calendar'}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                        slotView === 'calendar' ? 'bg-brand-500 text-white' : 'text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      <CalendarDays className="w-4 h-4" aria-hidden="true" />
+                      {t('home.slotView.calendar')}
+                    </button>
+                  </div>
+                </div>
+                {slotView === 'calendar' ? (
+                  // Remount per doctor so the calendar opens on that doctor's first opening
+                  <SlotCalendar key={selectedDoctorId} slots={slots} onBook={handleBookSlot} />
+                ) : (
+                  <SlotList slots={slots} onBook={handleBookSlot} />
+                )}
+              </>
             )}
           </div>
         </div>
@@ -0,0 +1,247 @@
+// src/store/entityStore.ts
+/**
+ * entityStore - Normalized client-side cache for doctors, slots and bookings
+ *
+ * Entities are stored once, keyed by id. List requests ("queries") only remember
+ * which ids they returned and when, so a slot created by the admin or a booking made
+ * by a patient is visible to every view that selects from the store.
+ *
+ * The reducer is pure; AppContext owns the state and performs the fetching.
+ */
+
+import type { Doctor, AppointmentSlot, Booking, BookingDetails } from '../types'
+
+/**
+ * How long a successful query is considered fresh before it is revalidated
+ */
+export const STALE_TIME_MS = 30_000
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error'
+
+/**
+ * Fetch state of one list request
+ */
+export interface QueryState {
+  status: QueryStatus
+  error: string | null
+  updatedAt: number | null
+  stale: boolean
+  ids: number[]
+}
+
+export interface EntityState {
+  doctors: Record<number, Doctor>
+  slots: Record<number, AppointmentSlot>
+  bookings: Record<number, Booking>
+  queries: Record<string, QueryState>
+}
+
+export type EntityAction =
+  | { type: 'query/started'; key: string }
+  | { type: 'query/cancelled'; key: string }
+  | { type: 'query/failed'; key: string; error: string }
+  | { type: 'query/invalidated'; key: string }
+  | { type: 'doctors/received'; doctors: Doctor[] }
+  | { type: 'slots/received'; doctorId: number; slots: AppointmentSlot[] }
+  | { type: 'doctor/upserted'; doctor: Doctor }
+  | { type: 'doctor/received'; doctor: Doctor }
+  | { type: 'slot/upserted'; slot: AppointmentSlot }
+  | { type: 'slot/received'; slot: AppointmentSlot }
+  | { type: 'booking/upserted'; booking: Booking }
+  | { type: 'booking/received'; booking: BookingDetails }
+
+/**
+ * Query keys for the list requests the store knows about
+ */
+export const queryKeys = {
+  doctors: () => 'doctors',
+  doctor: (doctorId: number) => `doctors/${doctorId}`,
+  doctorSlots: (doctorId: number) => `doctors/${doctorId}/slots`,
+  slot: (slotId: number) => `slots/${slotId}`,
+  booking: (bookingId: number) => `bookings/${bookingId}`,
+}
+
+export const initialEntityState: EntityState = {
+  doctors: {},
+  slots: {},
+  bookings: {},
+  queries: {},
+}
+
+const idleQuery: QueryState = {
+  status: 'idle',
+  error: null,
+  updatedAt: null,
+  stale: false,
+  ids: [],
+}
+
+function updateQuery(
+  state: EntityState,
+  key: string,
+  patch: Partial<QueryState>
+): EntityState {
+  const current = state.queries[key] ?? idleQuery
+  return {
+    ...state,
+    queries: { ...state.queries, [key]: { ...current, ...patch } },
+  }
+}
+
+function indexById<T extends { id: number }>(items: T[]): Record<number, T> {
+  const byId: Record<number, T> = {}
+  for (const item of items) {
+    byId[item.id] = item
+  }
+  return byId
+}
+
+/**
+ * Pure reducer for the entity store
+ */
+export function entityReducer(state: EntityState, action: EntityAction): EntityState {
+  switch (action.type) {
+    case 'query/started':
+      return updateQuery(state, action.key, { status: 'loading', error: null })
+
+    case 'query/cancelled': {
+      const current = state.queries[action.key] ?? idleQuery
+      return updateQuery(state, action.key, {
+        status: current.updatedAt === null ? 'idle' : 'success',
+      })
+    }
+
+    case 'query/failed':
+      return updateQuery(state, action.key, { status: 'error', error: action.error })
+
+    case 'query/invalidated':
+      return updateQuery(state, action.key, { stale: true })
+
+    case 'doctors/received': {
+      const next: EntityState = { ...state, doctors: indexById(action.doctors) }
+      return updateQuery(next, queryKeys.doctors(), {
+        status: 'success',
+        error: null,
+        updatedAt: Date.now(),
+        stale: false,
+        ids: action.doctors.map((doctor) => doctor.id),
+      })
+    }
+
+    case 'slots/received': {
+      // The response is the full list for this doctor: drop slots it no longer contains
+      const slots: Record<number, AppointmentSlot> = {}
+      for (const slot of Object.values(state.slots)) {
+        if (slot.doctor_id !== action.doctorId) {
+          slots[slot.id] = slot
+        }
+      }
+      Object.assign(slots, indexById(action.slots))
+      return updateQuery({ ...state, slots }, queryKeys.doctorSlots(action.doctorId), {
+        status: 'success',
+        error: null,
+        updatedAt: Date.now(),
+        stale: false,
+        ids: action.slots.map((slot) => slot.id),
+      })
+    }
+
+    case 'doctor/upserted': {
+      const key = queryKeys.doctors()
+      const query = state.queries[key] ?? idleQuery
+      const next: EntityState = {
+        ...state,
+        doctors: { ...state.doctors, [action.doctor.id]: action.doctor },
+      }
+      return query.ids.includes(action.doctor.id)
+        ? next
+        : updateQuery(next, key, { ids: [...query.ids, action.doctor.id] })
+    }
+
+    case 'doctor/received':
+      return updateQuery(
+        { ...state, doctors: { ...state.doctors, [action.doctor.id]: action.doctor } },
+        queryKeys.doctor(action.doctor.id),
+        { status: 'success', error: null, updatedAt: Date.now(), stale: false, ids: [action.doctor.id] }
+      )
+
+    case 'slot/upserted':
+      return { ...state, slots: { ...state.slots, [action.slot.id]: action.slot } }
+
+    case 'slot/received':
+      return updateQuery(
+        { ...state, slots: { ...state.slots, [action.slot.id]: action.slot } },
+        queryKeys.slot(action.slot.id),
+        { status: 'success', error: null, updatedAt: Date.now(), stale: false, ids: [action.slot.id] }
+      )
+
+    case 'booking/upserted':
+      return { ...state, bookings: { ...state.bookings, [action.booking.id]: action.booking } }
+
+    case 'booking/received': {
+      // Embedded slot/doctor are cached as entities without joining any list query
+      const { slot, doctor, ...booking } = action.booking
+      const next: EntityState = {
+        ...state,
+        bookings: { ...state.bookings, [booking.id]: booking },
+        slots: slot ? { ...state.slots, [slot.id]: slot } : state.slots,
+        doctors: doctor ? { ...state.doctors, [doctor.id]: doctor } : state.doctors,
+      }
+      return updateQuery(next, queryKeys.booking(booking.id), {
+        status: 'success',
+        error: null,
+        updatedAt: Date.now(),
+        stale: false,
+        ids: [booking.id],
+      })
+    }
+
+    default:
+      return state
+  }
+}
+
+/**
+ * Selectors
+ */
+
+export function selectQuery(state: EntityState, key: string): QueryState {
+  return state.queries[key] ?? idleQuery
+}
+
+/**
+ * True when the query has data that is recent enough to skip a refetch
+ */
+export function isQueryFresh(query: QueryState, now: number = Date.now()): boolean {
+  return query.updatedAt !== null && !query.stale && now - query.updatedAt < STALE_TIME_MS
+}
+
+/**
+ * All doctors, in the order the backend returned them
+ */
+export function selectDoctors(state: EntityState): Doctor[] {
+  return selectQuery(state, queryKeys.doctors())
+    .ids.map((id) => state.doctors[id])
+    .filter((doctor): doctor is Doctor => Boolean(doctor))
+}
+
+export function selectDoctor(state: EntityState, doctorId: number): Doctor | undefined {
+  return state.doctors[doctorId]
+}
+
+export function selectSlot(state: EntityState, slotId: number): AppointmentSlot | undefined {
+  return state.slots[slotId]
+}
+
+/**
+ * Slots for one doctor, sorted by start time
+ */
+export function selectSlotsForDoctor(state: EntityState, doctorId: number): AppointmentSlot[] {
+  return Object.values(state.slots)
+    .filter((slot) => slot.doctor_id === doctorId)
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+}
+
+export function selectBooking(state: EntityState, bookingId: number): Booking | undefined {
+  return state.bookings[bookingId]
+}
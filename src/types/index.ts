@@ -5,26 +5,74 @@ export interface Doctor {
     id: number
     name: string
     specialization?: string
+    bio?: string
+    // e.g. ["MBBS", "MD (Cardiology)"]
+    qualifications?: string[]
+    languages?: string[]
+    clinic_location?: string
+    photo_url?: string
     created_at?: string
   }
+
+  // Fields accepted when creating a doctor
+  export type DoctorInput = Omit<Doctor, 'id' | 'created_at'>
   
+  // Whether a slot can still be booked:
+  // held - a PENDING booking is waiting for confirmation, booked - CONFIRMED, past - already started
+  export type SlotAvailability = 'available' | 'held' | 'booked' | 'past'
+
   // Slot returned from backend / used in frontend
   export interface AppointmentSlot {
     id: number
     doctor_id: number
     start_time: string
     duration_minutes: number
+    availability: SlotAvailability
     created_at?: string
   }
   
+  // Lifecycle state of a booking
+  export type BookingStatus = 'PENDING' | 'CONFIRMED' | 'FAILED' | 'CANCELLED'
+
   // Booking returned from /slots/:id/book
   export interface Booking {
     id: number
     slot_id: number
     patient_name: string
     patient_email?: string
-    status: 'PENDING' | 'CONFIRMED' | 'FAILED'
+    status: BookingStatus
+    // When a PENDING booking is released if not confirmed; null once settled
+    expires_at?: string | null
+    // Secret handed to the patient at booking time (and by /bookings/lookup);
+    // proves they own the booking when cancelling or rescheduling it
+    manage_token?: string
     created_at?: string
     updated_at?: string
   }
-  
\ No newline at end of file
+
+  // Booking returned from /bookings/:id - may embed the booked slot and its doctor
+  export interface BookingDetails extends Booking {
+    slot?: AppointmentSlot
+    doctor?: Doctor
+  }
+
+  // Statistics returned from /admin/stats
+  export interface AdminStats {
+    totalDoctors: number
+    totalSlots: number
+    totalBookings: number
+    [key: string]: unknown
+  }
+
+  // Response of the /health check
+  export interface HealthStatus {
+    status: string
+    [key: string]: unknown
+  }
+
+  // Admin session returned from /admin/login
+  export interface AdminSession {
+    token: string
+    username?: string
+    expires_at?: string
+  }
@@ -0,0 +1,57 @@
+/**
+ * Generated initials avatars
+ * Everything is computed locally - no image service is called, so avatars work
+ * offline and doctor names never leave the browser. The same name always gets
+ * the same initials and colors.
+ */
+
+import { resolveSpecialization } from './specializations'
+
+export interface AvatarColors {
+  background: string
+  foreground: string
+}
+
+// Titles skipped when picking initials ("Dr. Sarah Chen" -> "SC")
+const TITLES = new Set(['dr', 'doctor', 'prof', 'professor', 'mr', 'mrs', 'ms', 'mx'])
+
+/**
+ * Up to two initials: the first letters of the first and last words of a name
+ */
+export function getInitials(name: string): string {
+  const words = name
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean)
+  const named = words.filter((word) => !TITLES.has(word.toLowerCase()))
+  const parts = named.length > 0 ? named : words
+  if (parts.length === 0) return '?'
+  const first = Array.from(parts[0])[0]
+  const last = parts.length > 1 ? Array.from(parts[parts.length - 1])[0] : ''
+  return (first + last).toUpperCase()
+}
+
+/**
+ * Stable hue (0-359) for a string
+ */
+function hashHue(text: string): number {
+  let hash = 0
+  for (const char of text) {
+    hash = (hash * 31 + (char.codePointAt(0) ?? 0)) >>> 0
+  }
+  return hash % 360
+}
+
+/**
+ * Background and text colors for an avatar
+ * Uses the specialization's registry color when given one it knows, otherwise a
+ * hue derived from the name. Light background with dark text keeps the
+ * initials readable (contrast above 5:1) whatever the hue.
+ */
+export function getAvatarColors(name: string, specialization?: string): AvatarColors {
+  const hue = resolveSpecialization(specialization)?.hue ?? hashHue(name)
+  return {
+    background: `hsl(${hue} 70% 90%)`,
+    foreground: `hsl(${hue} 60% 25%)`,
+  }
+}
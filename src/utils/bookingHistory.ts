@@ -0,0 +1,68 @@
+/**
+ * Bookings made or looked up on this device
+ * Stored in localStorage so "My Appointments" can list them on a later visit.
+ * Only references and manage tokens are kept; the bookings themselves are
+ * always re-fetched.
+ */
+
+const STORAGE_KEY = 'medreserve-booking-history'
+
+export interface SavedBooking {
+  id: number
+  /** Email the booking was made with, if any */
+  email?: string
+  /** The booking's manage_token - needed to cancel or reschedule it */
+  manageToken?: string
+  /** When it was saved (ISO) */
+  savedAt: string
+}
+
+/**
+ * Read the saved bookings, newest first
+ */
+export function getSavedBookings(): SavedBooking[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+    const parsed: unknown = JSON.parse(stored)
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter(
+      (entry): entry is SavedBooking =>
+        Boolean(entry) && typeof entry.id === 'number' && typeof entry.savedAt === 'string'
+    )
+  } catch {
+    return []
+  }
+}
+
+function writeSavedBookings(entries: SavedBooking[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  } catch (error) {
+    console.warn('Could not save booking history', error)
+  }
+}
+
+/**
+ * Remember a booking on this device (moves it to the top if already saved)
+ * A manage token saved earlier is kept when none is given, e.g. after a lookup.
+ */
+export function rememberBooking(id: number, email?: string, manageToken?: string): SavedBooking[] {
+  const saved = getSavedBookings()
+  const existing = saved.find((entry) => entry.id === id)
+  const entries = [
+    { id, email, manageToken: manageToken ?? existing?.manageToken, savedAt: new Date().toISOString() },
+    ...saved.filter((entry) => entry.id !== id),
+  ]
+  writeSavedBookings(entries)
+  return entries
+}
+
+/**
+ * Remove a booking from this device's history
+ */
+export function forgetBooking(id: number): SavedBooking[] {
+  const entries = getSavedBookings().filter((entry) => entry.id !== id)
+  writeSavedBookings(entries)
+  return entries
+}
@@ -0,0 +1,47 @@
+/**
+ * Display styles for booking statuses
+ * Shared by BookingPage, BookingStatusBadge and the appointment lists so a
+ * status always has the same colors. Labels and titles are translated messages
+ * (bookingStatus.label.* and bookingStatus.title.*).
+ */
+
+import type { BookingStatus } from '../types'
+
+export interface BookingStatusStyle {
+  /** Tailwind classes for a status card (background, border, text) */
+  card: string
+  /** Tailwind classes for a status pill */
+  badge: string
+  /** Tailwind text color for the status icon */
+  icon: string
+}
+
+export const BOOKING_STATUS_STYLES: Record<BookingStatus, BookingStatusStyle> = {
+  CONFIRMED: {
+    card: 'bg-green-50 border border-green-200 text-green-800',
+    badge: 'bg-green-200 text-green-900',
+    icon: 'text-green-600',
+  },
+  PENDING: {
+    card: 'bg-yellow-50 border border-yellow-200 text-yellow-800',
+    badge: 'bg-yellow-200 text-yellow-900',
+    icon: 'text-yellow-600',
+  },
+  FAILED: {
+    card: 'bg-red-50 border border-red-200 text-red-800',
+    badge: 'bg-red-200 text-red-900',
+    icon: 'text-red-600',
+  },
+  CANCELLED: {
+    card: 'bg-slate-50 border border-slate-200 text-slate-700',
+    badge: 'bg-slate-200 text-slate-800',
+    icon: 'text-slate-500',
+  },
+}
+
+/**
+ * True while a booking still holds its slot
+ */
+export function isActiveBookingStatus(status: BookingStatus): boolean {
+  return status === 'PENDING' || status === 'CONFIRMED'
+}
@@ -0,0 +1,95 @@
+/**
+ * Calendar export helpers
+ * Builds an .ics (iCalendar) event for a booking and downloads it.
+ * The UID is stable per booking and SEQUENCE grows with updated_at, so importing
+ * the file again after a reschedule or cancellation updates the existing event.
+ */
+
+import type { Booking, BookingStatus, AppointmentSlot, Doctor } from '../types'
+import type { LocaleContextType } from '../i18n'
+import { CLINIC_TIME_ZONE, formatDate, formatICSTimestamp, formatTime } from './datetime'
+
+const ICS_STATUS: Record<BookingStatus, string> = {
+  PENDING: 'TENTATIVE',
+  CONFIRMED: 'CONFIRMED',
+  FAILED: 'CANCELLED',
+  CANCELLED: 'CANCELLED',
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/[,;]/g, '\\$&').replace(/\n/g, '\\n')
+}
+
+/**
+ * Generate .ics file for calendar
+ * The summary and description are written in the active language (t from useTranslation()).
+ */
+export function generateICS(
+  t: LocaleContextType['t'],
+  booking: Booking,
+  slot?: AppointmentSlot,
+  doctor?: Doctor
+): string {
+  const start = slot ? new Date(slot.start_time) : new Date()
+  const end = slot ? new Date(start.getTime() + slot.duration_minutes * 60000) : new Date(start.getTime() + 30 * 60000)
+
+  const summary = doctor?.name
+    ? t('calendar.summary', { name: doctor.name })
+    : t('calendar.summaryNoDoctor')
+  const descriptionLines = [
+    t('calendar.bookingId', { id: String(booking.id) }),
+    t('calendar.patient', { name: booking.patient_name }),
+  ]
+  // Times are exported in UTC; the description repeats the clinic wall-clock time
+  if (slot) {
+    descriptionLines.push(
+      t('calendar.clinicTime', {
+        date: formatDate(slot.start_time),
+        time: formatTime(slot.start_time),
+        zone: CLINIC_TIME_ZONE,
+      })
+    )
+  }
+  const description = descriptionLines.join('\n')
+  // Seconds since epoch of the last change - always increases
+  const sequence = booking.updated_at ? Math.floor(Date.parse(booking.updated_at) / 1000) : 0
+  
+  return `BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//MedReserve//Appointment//EN
+BEGIN:VEVENT
+UID:${booking.id}@medreserve.com
+SEQUENCE:${sequence}
+DTSTAMP:${formatICSTimestamp(new Date())}
+DTSTART:${formatICSTimestamp(start)}
+DTEND:${formatICSTimestamp(end)}
+SUMMARY:${escapeText(summary)}
+DESCRIPTION:${escapeText(description)}
+STATUS:${ICS_STATUS[booking.status]}
+END:VEVENT
+END:VCALENDAR`
+}
+
+/**
+ * Download .ics file
+ */
+export function downloadICS(
+  t: LocaleContextType['t'],
+  booking: Booking,
+  slot?: AppointmentSlot,
+  doctor?: Doctor
+) {
+  const icsContent = generateICS(t, booking, slot, doctor)
+  const blob = new Blob([icsContent], { type: 'text/calendar' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `appointment-${booking.id}.ics`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
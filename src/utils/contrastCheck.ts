@@ -1,8 +1,60 @@
 /**
- * Accessibility contrast checker for hero section
- * Warns in console if contrast ratio is below WCAG AA standard (4.5:1)
+ * Accessibility audit of the rendered page
+ * Walks the DOM and reports common WCAG problems: text below the AA contrast
+ * ratio, images without alt text, buttons without an accessible name and
+ * clickable elements that keyboard and screen-reader users cannot reach.
+ * Used by the dev-mode AccessibilityAudit panel; it only reads the DOM.
  */
 
+type Rgb = [number, number, number]
+type Rgba = [number, number, number, number]
+
+export type AuditRule = 'contrast' | 'missing-alt' | 'unlabeled-button' | 'clickable-non-interactive'
+
+export interface AuditFinding {
+  rule: AuditRule
+  element: Element
+  /** What is wrong, for the panel */
+  message: string
+}
+
+export const AUDIT_RULE_LABELS: Record<AuditRule, string> = {
+  contrast: 'Low contrast',
+  'missing-alt': 'Missing alt text',
+  'unlabeled-button': 'Unlabeled button',
+  'clickable-non-interactive': 'Clickable non-interactive element',
+}
+
+// WCAG AA: 4.5:1 for normal text, 3:1 for large text
+const MIN_CONTRAST = 4.5
+const MIN_CONTRAST_LARGE = 3
+// Large text: at least 24px, or at least 18.66px (14pt) and bold
+const LARGE_TEXT_PX = 24
+const LARGE_BOLD_TEXT_PX = 18.66
+// Page background when nothing up the tree paints one
+const CANVAS_BACKGROUND: Rgb = [255, 255, 255]
+
+// Elements and roles that are reachable and operable by keyboard
+const INTERACTIVE_SELECTOR = [
+  'a[href]',
+  'button',
+  'input',
+  'select',
+  'textarea',
+  'label',
+  'summary',
+  '[tabindex]',
+  '[contenteditable="true"]',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="option"]',
+  '[role="tab"]',
+  '[role="menuitem"]',
+  '[role="checkbox"]',
+  '[role="radio"]',
+  '[role="switch"]',
+].join(', ')
+
 /**
  * Calculate relative luminance of a color
  * @param r - Red component (0-255)
@@ -22,7 +74,7 @@ function getLuminance(r: number, g: number, b: number): number {
  * @param color1 - First color as RGB array [r, g, b]
  * @param color2 - Second color as RGB array [r, g, b]
  */
-function getContrastRatio(color1: [number, number, number], color2: [number, number, number]): number {
+function getContrastRatio(color1: Rgb, color2: Rgb): number {
   const lum1 = getLuminance(...color1)
   const lum2 = getLuminance(...color2)
   const lighter = Math.max(lum1, lum2)
@@ -30,52 +82,190 @@ function getContrastRatio(color1: [number, number, number], color2: [number, num
   return (lighter + 0.05) / (darker + 0.05)
 }
 
+// Parsed colors by CSS value - a page reuses a handful of colors many times
+const colorCache = new Map<string, Rgba | null>()
+let colorContext: CanvasRenderingContext2D | null = null
+
 /**
- * Check contrast ratio for hero title
- * Warns if contrast is below 4.5:1 (WCAG AA standard for large text)
+ * Parse any CSS color the browser understands into RGBA
+ * Painting it onto a 1x1 canvas converts every syntax (rgb(), hsl(), oklch(),
+ * named colors) to sRGB bytes.
  */
-export function checkHeroContrast(): void {
-  // Wait for DOM to be ready
-  if (typeof window === 'undefined') return
+function parseColor(value: string): Rgba | null {
+  const cached = colorCache.get(value)
+  if (cached !== undefined) return cached
 
-  setTimeout(() => {
-    const heroTitle = document.querySelector('.hero-card h1')
-    if (!heroTitle) return
+  colorContext ??= document.createElement('canvas').getContext('2d', { willReadFrequently: true })
+  let color: Rgba | null = null
+  if (colorContext) {
+    colorContext.clearRect(0, 0, 1, 1)
+    colorContext.fillStyle = '#000'
+    colorContext.fillStyle = value
+    colorContext.fillRect(0, 0, 1, 1)
+    const [r, g, b, a] = colorContext.getImageData(0, 0, 1, 1).data
+    color = [r, g, b, a / 255]
+  }
+  colorCache.set(value, color)
+  return color
+}
 
-    const computedStyle = window.getComputedStyle(heroTitle)
-    const textColor = computedStyle.color
-    const bgColor = computedStyle.backgroundColor
+/**
+ * Paint a translucent color over an opaque one
+ */
+function composite(top: Rgba, bottom: Rgb): Rgb {
+  const [r, g, b, a] = top
+  return [r * a + bottom[0] * (1 - a), g * a + bottom[1] * (1 - a), b * a + bottom[2] * (1 - a)]
+}
+
+/**
+ * Background an element's text is drawn on
+ * Transparent and translucent backgrounds are resolved by walking up the tree
+ * and layering each ancestor's background color. Returns null when a
+ * background image (e.g. a gradient) is in the way - its color under the text
+ * is unknown.
+ */
+function resolveBackground(element: Element): Rgb | null {
+  const layers: Rgba[] = []
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const style = window.getComputedStyle(current)
+    if (style.backgroundImage !== 'none') return null
+    const color = parseColor(style.backgroundColor)
+    if (color && color[3] > 0) {
+      layers.push(color)
+      if (color[3] === 1) break
+    }
+  }
 
-    // Parse RGB values from computed styles
-    const textMatch = textColor.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/)
-    const bgMatch = bgColor.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/)
+  let background = CANVAS_BACKGROUND
+  for (const layer of layers.reverse()) {
+    background = composite(layer, background)
+  }
+  return background
+}
 
-    if (!textMatch || !bgMatch) {
-      console.warn('Contrast check: Could not parse colors')
-      return
+/**
+ * Whether an element is rendered and visible on screen
+ */
+function isVisible(element: Element): boolean {
+  if (element.closest('[aria-hidden="true"], [data-a11y-audit]')) return false
+  const rect = element.getBoundingClientRect()
+  // Zero-size and visually hidden (sr-only) content has no visible text to check
+  if (rect.width <= 1 || rect.height <= 1) return false
+  const style = window.getComputedStyle(element)
+  return style.visibility !== 'hidden' && style.display !== 'none'
+}
+
+/**
+ * Whether an element renders text of its own (not only through children)
+ */
+function hasOwnText(element: Element): boolean {
+  return Array.from(element.childNodes).some(
+    (node) => node.nodeType === Node.TEXT_NODE && Boolean(node.textContent?.trim())
+  )
+}
+
+/**
+ * Contrast problem of an element's own text, or null
+ */
+function checkContrast(element: Element): string | null {
+  const style = window.getComputedStyle(element)
+  const foreground = parseColor(style.color)
+  const background = resolveBackground(element)
+  if (!foreground || !background) return null
+
+  const text = composite(foreground, background)
+  const ratio = getContrastRatio(text, background)
+  const size = parseFloat(style.fontSize)
+  const isLarge = size >= LARGE_TEXT_PX || (size >= LARGE_BOLD_TEXT_PX && Number(style.fontWeight) >= 700)
+  const required = isLarge ? MIN_CONTRAST_LARGE : MIN_CONTRAST
+  if (ratio >= required) return null
+  return `Contrast ${ratio.toFixed(2)}:1, needs ${required}:1 (${style.color} on rgb(${background
+    .map(Math.round)
+    .join(', ')}))`
+}
+
+/**
+ * Rough accessible name: aria-label, aria-labelledby, visible text, alt text
+ * of images inside, or title
+ */
+function accessibleName(element: Element): string {
+  const label = element.getAttribute('aria-label')?.trim()
+  if (label) return label
+  const labelledBy = element.getAttribute('aria-labelledby')
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map((id) => document.getElementById(id)?.textContent ?? '')
+      .join(' ')
+      .trim()
+    if (text) return text
+  }
+  if (element instanceof HTMLInputElement) {
+    return element.value.trim()
+  }
+  const clone = element.cloneNode(true) as Element
+  clone.querySelectorAll('[aria-hidden="true"]').forEach((hidden) => hidden.remove())
+  const text = clone.textContent?.trim()
+  if (text) return text
+  const alt = Array.from(element.querySelectorAll('img[alt], [role="img"][aria-label]'))
+    .map((image) => image.getAttribute('alt') ?? image.getAttribute('aria-label') ?? '')
+    .join(' ')
+    .trim()
+  if (alt) return alt
+  return element.getAttribute('title')?.trim() ?? ''
+}
+
+/**
+ * Audit the rendered page (or part of it) for common accessibility problems
+ * Elements inside [data-a11y-audit] (the audit panel itself) and hidden
+ * content are skipped.
+ */
+export function auditAccessibility(root: Element = document.body): AuditFinding[] {
+  const findings: AuditFinding[] = []
+
+  for (const element of Array.from(root.querySelectorAll('*'))) {
+    if (!isVisible(element)) continue
+
+    // Text contrast - disabled controls are exempt in WCAG
+    if (hasOwnText(element) && !element.closest(':disabled, [aria-disabled="true"]')) {
+      const problem = checkContrast(element)
+      if (problem) {
+        findings.push({ rule: 'contrast', element, message: problem })
+      }
     }
 
-    const textRgb: [number, number, number] = [
-      parseInt(textMatch[1]),
-      parseInt(textMatch[2]),
-      parseInt(textMatch[3]),
-    ]
-    const bgRgb: [number, number, number] = [
-      parseInt(bgMatch[1]),
-      parseInt(bgMatch[2]),
-      parseInt(bgMatch[3]),
-    ]
-
-    const contrast = getContrastRatio(textRgb, bgRgb)
-
-    if (contrast < 4.5) {
-      console.warn(
-        `⚠️ Accessibility Warning: Hero title contrast ratio is ${contrast.toFixed(2)}:1, which is below WCAG AA standard (4.5:1)`
-      )
-      console.warn('Text color:', textColor, 'Background:', bgColor)
-    } else {
-      console.log(`✓ Hero title contrast ratio: ${contrast.toFixed(2)}:1 (WCAG AA compliant)`)
+    // Images without a text alternative (alt="" marks decorative images and is fine)
+    if (element instanceof HTMLImageElement && !element.hasAttribute('alt')) {
+      findings.push({ rule: 'missing-alt', element, message: `Image has no alt attribute (${element.src})` })
+    } else if (element.getAttribute('role') === 'img' && !accessibleName(element)) {
+      findings.push({ rule: 'missing-alt', element, message: 'Element with role="img" has no label' })
     }
-  }, 100)
-}
 
+    // Buttons screen readers can only announce as "button"
+    // (submit and reset inputs fall back to a default label, so only plain buttons count)
+    const isButton =
+      element instanceof HTMLButtonElement ||
+      element.getAttribute('role') === 'button' ||
+      (element instanceof HTMLInputElement && element.type === 'button')
+    if (isButton && !accessibleName(element)) {
+      findings.push({ rule: 'unlabeled-button', element, message: 'Button has no accessible name' })
+    }
+
+    // Click handlers are not visible in the DOM, so go by the pointer cursor: an
+    // element that sets it itself (rather than inheriting it), and is neither
+    // interactive nor inside something interactive, is probably clickable only with a mouse
+    if (
+      window.getComputedStyle(element).cursor === 'pointer' &&
+      !element.closest(INTERACTIVE_SELECTOR) &&
+      (!element.parentElement || window.getComputedStyle(element.parentElement).cursor !== 'pointer')
+    ) {
+      findings.push({
+        rule: 'clickable-non-interactive',
+        element,
+        message: `<${element.tagName.toLowerCase()}> looks clickable but has no role and is not focusable`,
+      })
+    }
+  }
+
+  return findings
+}
@@ -0,0 +1,183 @@
+/**
+ * Date and time formatting for appointment slots
+ *
+ * Slot times are instants (UTC ISO strings from the backend) but are always shown
+ * in the clinic's timezone, so every patient and admin sees the same wall-clock
+ * time. Where the viewer's own timezone differs, their local time is shown as a
+ * hint next to it. Configure the clinic zone with VITE_CLINIC_TIMEZONE (an IANA
+ * name such as "America/New_York"); it defaults to the browser's zone.
+ *
+ * Dates, times and durations are written the way the chosen language writes
+ * them - LocaleProvider calls setDisplayLocale() when the language changes.
+ */
+
+let displayLocale = 'en-US'
+
+/**
+ * Locale used to format dates, times and durations, e.g. "hi-IN"
+ */
+export function setDisplayLocale(locale: string): void {
+  displayLocale = locale
+}
+
+export function getDisplayLocale(): string {
+  return displayLocale
+}
+
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+function resolveClinicTimeZone(): string {
+  const configured = import.meta.env.VITE_CLINIC_TIMEZONE
+  if (!configured) return BROWSER_TIME_ZONE
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: configured })
+    return configured
+  } catch {
+    console.warn(`Unknown VITE_CLINIC_TIMEZONE "${configured}", using ${BROWSER_TIME_ZONE}`)
+    return BROWSER_TIME_ZONE
+  }
+}
+
+export const CLINIC_TIME_ZONE = resolveClinicTimeZone()
+
+export type DateStyle = 'long' | 'medium' | 'short'
+
+const DATE_OPTIONS: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  long: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' },
+  medium: { weekday: 'long', month: 'long', day: 'numeric' },
+  short: { weekday: 'short', month: 'short', day: 'numeric' },
+}
+
+/**
+ * Calendar date and wall-clock time of an instant in a timezone
+ */
+export interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+/**
+ * Split an instant into its date and time parts in a timezone
+ */
+export function getZonedParts(value: string | Date, timeZone: string = CLINIC_TIME_ZONE): ZonedParts {
+  // Fixed locale - the parts are read back as numbers, whatever the display language
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(new Date(value))
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((candidate) => candidate.type === type)?.value ?? 0)
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+  }
+}
+
+/**
+ * Clinic calendar day of an instant, e.g. "2025-03-14"
+ */
+export function getClinicDayKey(value: string | Date): string {
+  const { year, month, day } = getZonedParts(value)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Time of day in the clinic's timezone, e.g. "9:30 AM" (or "9:30" in Spanish)
+ */
+export function formatTime(value: string | Date): string {
+  return new Date(value).toLocaleTimeString(displayLocale, {
+    timeZone: CLINIC_TIME_ZONE,
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Date in the clinic's timezone
+ * @param style - long: "Friday, March 14, 2025", medium: "Friday, March 14", short: "Fri, Mar 14"
+ */
+export function formatDate(value: string | Date, style: DateStyle = 'long'): string {
+  return new Date(value).toLocaleDateString(displayLocale, {
+    timeZone: CLINIC_TIME_ZONE,
+    ...DATE_OPTIONS[style],
+  })
+}
+
+/**
+ * Length of an appointment, e.g. "30 minutes" (long) or "30 min" (short)
+ */
+export function formatDuration(minutes: number, style: 'long' | 'short' = 'long'): string {
+  return new Intl.NumberFormat(displayLocale, { style: 'unit', unit: 'minute', unitDisplay: style }).format(minutes)
+}
+
+/**
+ * Short name of a timezone at an instant, e.g. "EST" or "GMT+5:30"
+ */
+export function getTimeZoneName(value: string | Date, timeZone: string = CLINIC_TIME_ZONE): string {
+  const parts = new Intl.DateTimeFormat(displayLocale, { timeZone, timeZoneName: 'short' }).formatToParts(
+    new Date(value)
+  )
+  return parts.find((part) => part.type === 'timeZoneName')?.value ?? timeZone
+}
+
+/**
+ * The viewer's local time when it differs from clinic time, e.g. "3:30 PM IST"
+ * Returns null when the browser is in the clinic's timezone (or the same offset).
+ */
+export function formatLocalTimeHint(value: string | Date): string | null {
+  const clinic = getZonedParts(value)
+  const local = getZonedParts(value, BROWSER_TIME_ZONE)
+  if (clinic.hour === local.hour && clinic.minute === local.minute && clinic.day === local.day) {
+    return null
+  }
+  const time = new Date(value).toLocaleTimeString(displayLocale, { hour: 'numeric', minute: '2-digit' })
+  const sameDay = clinic.year === local.year && clinic.month === local.month && clinic.day === local.day
+  const date = sameDay
+    ? ''
+    : `${new Date(value).toLocaleDateString(displayLocale, { weekday: 'short', month: 'short', day: 'numeric' })}, `
+  return `${date}${time} ${getTimeZoneName(value, BROWSER_TIME_ZONE)}`
+}
+
+/**
+ * Convert a wall-clock date/time in a timezone to a UTC ISO string
+ * Used for datetime-local inputs, which carry no zone: "2025-03-14T09:30" typed
+ * by an admin means 9:30 at the clinic, whatever the admin's browser zone is.
+ * @param localValue - "YYYY-MM-DDTHH:mm" as produced by <input type="datetime-local">
+ */
+export function zonedDateTimeToIso(localValue: string, timeZone: string = CLINIC_TIME_ZONE): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(localValue)
+  if (!match) {
+    throw new RangeError(`Invalid date/time "${localValue}"`)
+  }
+  const [year, month, day, hour, minute] = match.slice(1).map(Number)
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute)
+
+  // Offset of the zone at a given instant, in ms (wall clock minus UTC)
+  const offsetAt = (instant: number) => {
+    const parts = getZonedParts(new Date(instant), timeZone)
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - instant
+  }
+
+  // Two passes settle the offset either side of a DST change
+  let instant = wallClockAsUtc - offsetAt(wallClockAsUtc)
+  instant = wallClockAsUtc - offsetAt(instant)
+  return new Date(instant).toISOString()
+}
+
+/**
+ * Format an instant as an iCalendar UTC timestamp, e.g. "20250314T093000Z"
+ */
+export function formatICSTimestamp(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'
+}
@@ -0,0 +1,109 @@
+/**
+ * Doctor search - fuzzy, ranked matching on name and specialization
+ * Specializations are matched by their canonical name, and the registry's
+ * aliases and keywords map everyday words to them ("heart" finds Cardiology).
+ * Each result carries the character ranges to highlight in the doctor card.
+ */
+
+import type { Doctor } from '../types'
+import { matchText, mergeRanges, splitWords } from './fuzzySearch'
+import type { MatchRange } from './fuzzySearch'
+import { getSpecializationStyle, resolveSpecialization } from './specializations'
+
+// Name matches rank a little above specialization matches
+const NAME_WEIGHT = 1
+const SPECIALIZATION_WEIGHT = 0.9
+// Synonym matches rank just below a direct specialization match
+const SYNONYM_WEIGHT = 0.85
+const MIN_SYNONYM_LENGTH = 3
+const MIN_SYNONYM_SCORE = 0.7
+
+export interface DoctorHighlights {
+  name: MatchRange[]
+  /** Ranges in the canonical specialization name */
+  specialization: MatchRange[]
+}
+
+export interface DoctorSearchResult {
+  doctor: Doctor
+  /** Higher is more relevant */
+  score: number
+  highlights: DoctorHighlights
+}
+
+/**
+ * Best synonym score of a query word for a specialization (0 when none match)
+ */
+function synonymScore(word: string, specialization: string): number {
+  // Too short to tell which term is meant ("he" could be heart or headache)
+  if (word.length < MIN_SYNONYM_LENGTH) return 0
+  const entry = resolveSpecialization(specialization)
+  if (!entry) return 0
+  let best = 0
+  for (const synonym of [...entry.aliases, ...entry.keywords]) {
+    const match = matchText(word, synonym)
+    // A typo'd start of a synonym is too loose ("chen" would find "checkup")
+    if (match && match.score >= MIN_SYNONYM_SCORE) {
+      best = Math.max(best, match.score)
+    }
+  }
+  return best
+}
+
+/**
+ * Filter and rank doctors for a search query
+ * An empty query returns every doctor in the original order without highlights.
+ * Otherwise every word of the query must match the name, the specialization or
+ * a specialization synonym; results are sorted by relevance (ties keep the
+ * original order).
+ */
+export function searchDoctors(doctors: Doctor[], query: string): DoctorSearchResult[] {
+  const words = splitWords(query).map((word) => word.text)
+  if (words.length === 0) {
+    return doctors.map((doctor) => ({ doctor, score: 0, highlights: { name: [], specialization: [] } }))
+  }
+
+  const results: DoctorSearchResult[] = []
+  for (const doctor of doctors) {
+    const specialization = doctor.specialization ? getSpecializationStyle(doctor.specialization).name : ''
+    const highlights: DoctorHighlights = { name: [], specialization: [] }
+    let total = 0
+    let matchedAll = true
+
+    for (const word of words) {
+      const nameMatch = matchText(word, doctor.name)
+      const specMatch = specialization ? matchText(word, specialization) : null
+      const nameScore = (nameMatch?.score ?? 0) * NAME_WEIGHT
+      const specScore = (specMatch?.score ?? 0) * SPECIALIZATION_WEIGHT
+      const synonym = specialization ? synonymScore(word, specialization) * SYNONYM_WEIGHT : 0
+      const best = Math.max(nameScore, specScore, synonym)
+      if (best === 0) {
+        matchedAll = false
+        break
+      }
+
+      total += best
+      if (nameMatch && nameScore === best) {
+        highlights.name.push(...nameMatch.ranges)
+      } else if (specMatch && specScore === best) {
+        highlights.specialization.push(...specMatch.ranges)
+      } else {
+        highlights.specialization.push([0, specialization.length])
+      }
+    }
+
+    if (matchedAll) {
+      results.push({
+        doctor,
+        score: total / words.length,
+        highlights: {
+          name: mergeRanges(highlights.name),
+          specialization: mergeRanges(highlights.specialization),
+        },
+      })
+    }
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep the backend's order
+  return results.sort((a, b) => b.score - a.score)
+}
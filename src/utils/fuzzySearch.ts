@@ -0,0 +1,217 @@
+/**
+ * Typo-tolerant text matching for search boxes
+ *
+ * Queries and fields are split into words. Each query word is matched against
+ * the words of a field: exact, prefix and substring matches score highest, then
+ * words within a small edit distance (so "cardiolgy" finds "Cardiology" and
+ * "smtih" finds "Smith"). Every query word has to match somewhere for a result
+ * to count. Matches carry the character ranges that matched, for highlighting.
+ */
+
+/** Half-open [start, end) character range in the original text */
+export type MatchRange = [start: number, end: number]
+
+export interface WordMatch {
+  /** 0-1, higher is a closer match */
+  score: number
+  /** Matched characters, as ranges in the original text */
+  ranges: MatchRange[]
+}
+
+interface Word {
+  text: string
+  /** Where each character of text starts in the original text */
+  starts: number[]
+  /** Where each character of text ends, including combining marks folded away after it */
+  ends: number[]
+}
+
+// Words shorter than this are only matched exactly or as a prefix
+const MIN_FUZZY_LENGTH = 3
+
+/**
+ * Lowercase and strip accents one character at a time
+ * A combining mark on its own (a separate accent, a Devanagari vowel sign)
+ * folds to an empty string.
+ */
+function foldChar(char: string): string {
+  const folded = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+  return folded.length <= 1 ? folded : char.toLowerCase()
+}
+
+/**
+ * Split text into folded words, remembering where each folded character came from
+ * Combining marks belong to the word (so "शर्मा" stays one word) but are left out
+ * of the folded text; the character before them spans them in the original.
+ */
+export function splitWords(text: string): Word[] {
+  const words: Word[] = []
+  for (const match of text.matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+    const word: Word = { text: '', starts: [], ends: [] }
+    let index = match.index
+    for (const char of match[0]) {
+      const folded = foldChar(char)
+      const end = index + char.length
+      if (folded) {
+        word.text += folded
+        for (let i = 0; i < folded.length; i += 1) {
+          word.starts.push(index)
+          word.ends.push(end)
+        }
+      } else if (word.ends.length > 0) {
+        word.ends[word.ends.length - 1] = end
+      }
+      index = end
+    }
+    if (word.text) words.push(word)
+  }
+  return words
+}
+
+/**
+ * Original-text range of the folded characters [from, to) of a word
+ */
+function wordRange(word: Word, from: number, to: number): MatchRange {
+  return [word.starts[from], word.ends[to - 1]]
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * neighbouring characters (optimal string alignment)
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j += 1) rows[0][j] = j
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+/**
+ * Positions in target of a longest common subsequence with query - the
+ * characters a fuzzy match has in common, for highlighting
+ */
+function commonCharacters(query: string, target: string): number[] {
+  const lengths = Array.from({ length: query.length + 1 }, () => Array<number>(target.length + 1).fill(0))
+  for (let i = query.length - 1; i >= 0; i -= 1) {
+    for (let j = target.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        query[i] === target[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+  const positions: number[] = []
+  let i = 0
+  let j = 0
+  while (i < query.length && j < target.length) {
+    if (query[i] === target[j]) {
+      positions.push(j)
+      i += 1
+      j += 1
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i += 1
+    } else {
+      j += 1
+    }
+  }
+  return positions
+}
+
+/**
+ * Merge sorted folded-character positions of a word into original-text ranges
+ */
+function toRanges(positions: number[], word: Word): MatchRange[] {
+  const ranges: MatchRange[] = []
+  for (const position of positions) {
+    const [start, end] = wordRange(word, position, position + 1)
+    const last = ranges[ranges.length - 1]
+    if (last && last[1] >= start) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      ranges.push([start, end])
+    }
+  }
+  return ranges
+}
+
+/**
+ * Typos allowed for a query word of this length
+ */
+function allowedEdits(length: number): number {
+  if (length < MIN_FUZZY_LENGTH) return 0
+  return length <= 5 ? 1 : 2
+}
+
+/**
+ * Score one folded query word against one word of a field
+ */
+function matchWord(query: string, word: Word): WordMatch | null {
+  const target = word.text
+  if (target === query) {
+    return { score: 1, ranges: [wordRange(word, 0, target.length)] }
+  }
+  if (target.startsWith(query)) {
+    return { score: 0.9, ranges: [wordRange(word, 0, query.length)] }
+  }
+  const index = query.length >= MIN_FUZZY_LENGTH ? target.indexOf(query) : -1
+  if (index > 0) {
+    return { score: 0.75, ranges: [wordRange(word, index, index + query.length)] }
+  }
+
+  const allowed = allowedEdits(query.length)
+  if (allowed === 0) return null
+  // Whole word with typos ("cardiolgy"), or the start of it while still typing ("cardoi")
+  const wholeDistance = editDistance(query, target)
+  const prefix = target.slice(0, query.length)
+  const prefixDistance = editDistance(query, prefix)
+  if (wholeDistance <= allowed && wholeDistance <= prefixDistance) {
+    return {
+      score: 0.7 - 0.1 * (wholeDistance - 1),
+      ranges: toRanges(commonCharacters(query, target), word),
+    }
+  }
+  if (prefixDistance <= allowed) {
+    return {
+      score: 0.6 - 0.1 * (prefixDistance - 1),
+      ranges: toRanges(commonCharacters(query, prefix), word),
+    }
+  }
+  return null
+}
+
+/**
+ * Best match of a folded query word among the words of a text, or null
+ */
+export function matchText(query: string, text: string): WordMatch | null {
+  let best: WordMatch | null = null
+  for (const word of splitWords(text)) {
+    const match = matchWord(query, word)
+    if (match && (!best || match.score > best.score)) {
+      best = match
+    }
+  }
+  return best
+}
+
+/**
+ * Sort ranges and merge the ones that touch or overlap
+ */
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: MatchRange[] = []
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+  return merged
+}
@@ -0,0 +1,45 @@
+/**
+ * Availability of appointment slots
+ * The backend reports whether a slot is held or booked; whether it has started
+ * is re-checked here, since a slot loaded a while ago may have passed since.
+ * Labels and reasons are translated messages (slotAvailability.label.* and
+ * slotAvailability.reason.*).
+ */
+
+import type { AppointmentSlot, SlotAvailability } from '../types'
+
+export interface SlotAvailabilityStyle {
+  /** Tailwind classes for a status pill */
+  badge: string
+}
+
+export const SLOT_AVAILABILITY_STYLES: Record<SlotAvailability, SlotAvailabilityStyle> = {
+  available: {
+    badge: 'bg-green-50 text-green-700',
+  },
+  held: {
+    badge: 'bg-yellow-100 text-yellow-900',
+  },
+  booked: {
+    badge: 'bg-slate-200 text-slate-800',
+  },
+  past: {
+    badge: 'bg-slate-100 text-slate-600',
+  },
+}
+
+/**
+ * Current availability of a slot
+ * @param now - timestamp to compare the start time against
+ */
+export function getSlotAvailability(slot: AppointmentSlot, now: number): SlotAvailability {
+  if (Date.parse(slot.start_time) <= now) return 'past'
+  return slot.availability
+}
+
+/**
+ * True when a slot can still be booked
+ */
+export function isSlotBookable(slot: AppointmentSlot, now: number): boolean {
+  return getSlotAvailability(slot, now) === 'available'
+}
@@ -0,0 +1,200 @@
+/**
+ * Specialization registry
+ * The one list of specializations the app knows about: the canonical name shown
+ * everywhere, the other names the same specialization goes by, everyday search
+ * terms, and the icon and colors of its badge. Free-text specializations from
+ * the backend ("cardiologist", "Heart", "Cardiolgy") are resolved to a
+ * canonical name, so filters, badges and the admin picker agree on one entry.
+ *
+ * To add or rename a specialization, edit SPECIALIZATIONS below.
+ */
+
+import { Activity, Baby, Brain, Eye, Heart, Scan, Stethoscope } from 'lucide-react'
+import type { LucideIcon } from 'lucide-react'
+import { editDistance, splitWords } from './fuzzySearch'
+
+export interface SpecializationDefinition {
+  /** Canonical name, as shown in badges and filters */
+  name: string
+  /** Other names for the same specialization - resolved to name when entered */
+  aliases: string[]
+  /** Everyday terms patients search for - only used by doctor search */
+  keywords: string[]
+  icon: LucideIcon
+  /** Tailwind classes for the specialization pill */
+  badge: string
+  /** Hue (0-360) of the same color, for generated avatars */
+  hue: number
+}
+
+export const SPECIALIZATIONS: SpecializationDefinition[] = [
+  {
+    name: 'Cardiology',
+    aliases: ['cardiologist', 'cardiac', 'heart', 'heart specialist'],
+    keywords: ['chest', 'blood pressure'],
+    icon: Heart,
+    badge: 'bg-red-100 text-red-700',
+    hue: 0,
+  },
+  {
+    name: 'Neurology',
+    aliases: ['neurologist', 'brain', 'nerves'],
+    keywords: ['nerve', 'headache', 'migraine', 'seizure'],
+    icon: Brain,
+    badge: 'bg-purple-100 text-purple-700',
+    hue: 270,
+  },
+  {
+    name: 'Pediatrics',
+    aliases: ['pediatrician', 'paediatrics', 'paediatrician', 'child health'],
+    keywords: ['child', 'children', 'kid', 'kids', 'baby', 'infant'],
+    icon: Baby,
+    badge: 'bg-pink-100 text-pink-700',
+    hue: 330,
+  },
+  {
+    name: 'Orthopedics',
+    aliases: ['orthopedic', 'orthopaedics', 'orthopedist', 'sports medicine'],
+    keywords: ['bone', 'bones', 'joint', 'fracture', 'knee', 'back', 'sports'],
+    icon: Activity,
+    badge: 'bg-green-100 text-green-700',
+    hue: 140,
+  },
+  {
+    name: 'Ophthalmology',
+    aliases: ['ophthalmologist', 'eye', 'eyes', 'eye care', 'vision'],
+    keywords: ['sight', 'glasses', 'cataract'],
+    icon: Eye,
+    badge: 'bg-cyan-100 text-cyan-700',
+    hue: 190,
+  },
+  {
+    name: 'General Practice',
+    aliases: ['gp', 'general practitioner', 'family medicine', 'family doctor'],
+    keywords: ['family', 'checkup', 'fever', 'cold', 'physician'],
+    icon: Stethoscope,
+    badge: 'bg-blue-100 text-blue-700',
+    hue: 215,
+  },
+  {
+    name: 'Dermatology',
+    aliases: ['dermatologist', 'skin', 'skin care'],
+    keywords: ['rash', 'acne', 'hair'],
+    icon: Scan,
+    badge: 'bg-amber-100 text-amber-800',
+    hue: 38,
+  },
+]
+
+/** Badge for specializations that are not in the registry */
+const FALLBACK_STYLE = {
+  icon: Stethoscope,
+  badge: 'bg-slate-100 text-slate-700',
+}
+
+// Names shorter than this only match exactly ("skin" must not become "spin")
+const MIN_FUZZY_LENGTH = 5
+// Names up to this long tolerate one typo, longer ones two. Kept tight so
+// distinct specialties stay apart ("Urology" is not "Neurology")
+const MAX_ONE_TYPO_LENGTH = 10
+
+// Lookups by raw text - lists and searches resolve the same few values over and over
+const resolved = new Map<string, SpecializationDefinition | undefined>()
+
+/**
+ * Lowercase, accent-free words joined by single spaces, for comparing names
+ */
+function normalize(text: string): string {
+  return splitWords(text)
+    .map((word) => word.text)
+    .join(' ')
+}
+
+/**
+ * Typos tolerated when comparing a name of this length
+ */
+function allowedEdits(length: number): number {
+  if (length < MIN_FUZZY_LENGTH) return 0
+  return length <= MAX_ONE_TYPO_LENGTH ? 1 : 2
+}
+
+/**
+ * Index of the candidate closest to text, or -1 when none is close enough
+ * Exact matches win, then the smallest edit distance within the allowed typos.
+ */
+function closestMatch(text: string, candidates: string[][]): number {
+  const target = normalize(text)
+  if (!target) return -1
+
+  let bestIndex = -1
+  let bestDistance = allowedEdits(target.length) + 1
+  candidates.forEach((names, index) => {
+    for (const name of names) {
+      const candidate = normalize(name)
+      let distance = Infinity
+      if (candidate === target) {
+        distance = 0
+      } else if (allowedEdits(Math.min(candidate.length, target.length)) > 0) {
+        distance = editDistance(target, candidate)
+      }
+      if (distance < bestDistance) {
+        bestDistance = distance
+        bestIndex = index
+      }
+    }
+  })
+  return bestIndex
+}
+
+/**
+ * Registry entry for a free-text specialization, matching the canonical name,
+ * an alias or a small typo of either; undefined when it is not in the registry
+ */
+export function resolveSpecialization(value?: string): SpecializationDefinition | undefined {
+  if (!value) return undefined
+  if (!resolved.has(value)) {
+    const index = closestMatch(
+      value,
+      SPECIALIZATIONS.map((entry) => [entry.name, ...entry.aliases])
+    )
+    resolved.set(value, index === -1 ? undefined : SPECIALIZATIONS[index])
+  }
+  return resolved.get(value)
+}
+
+/**
+ * Canonical name for a free-text specialization
+ * Registry entries win; otherwise a close match among `known` names (custom
+ * specializations already in use) is reused, and anything else is returned trimmed.
+ */
+export function canonicalSpecialization(value: string, known: string[] = []): string {
+  const entry = resolveSpecialization(value)
+  if (entry) return entry.name
+  const index = closestMatch(value, known.map((name) => [name]))
+  return index === -1 ? value.trim() : known[index]
+}
+
+/**
+ * Canonical names of a list of specializations, without duplicates, sorted
+ */
+export function uniqueSpecializations(values: Array<string | undefined>): string[] {
+  const names: string[] = []
+  for (const value of values) {
+    if (!value?.trim()) continue
+    const name = canonicalSpecialization(value, names)
+    if (!names.includes(name)) {
+      names.push(name)
+    }
+  }
+  return names.sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Display name, icon and badge colors for a free-text specialization
+ */
+export function getSpecializationStyle(value: string) {
+  const entry = resolveSpecialization(value)
+  return entry
+    ? { name: entry.name, icon: entry.icon, badge: entry.badge }
+    : { name: value.trim(), ...FALLBACK_STYLE }
+}